@@ -1,16 +1,46 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
+import type { ComponentType } from "react";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import TradingPage from "@/pages/trading";
 import MobileTradingPage from "@/pages/mobile-trading";
+import LoginPage from "@/pages/login";
+import ClientManagementPage from "@/pages/client-management";
+import LinkAccountPage from "@/pages/link-account";
 import NotFound from "@/pages/not-found";
+import { useAuth } from "@/hooks/use-auth";
+import type { Permission } from "@shared/roles";
+
+// Sends signed-out visitors to /login and hides pages the user's role may not see
+function ProtectedRoute({ path, component: Component, permission }: {
+  path: string;
+  component: ComponentType;
+  permission?: Permission;
+}) {
+  const { user, isLoading, can } = useAuth();
+
+  return (
+    <Route path={path}>
+      {() => {
+        if (isLoading) return null;
+        if (!user) return <Redirect to="/login" />;
+        if (permission && !can(permission)) return <NotFound />;
+        return <Component />;
+      }}
+    </Route>
+  );
+}
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={MobileTradingPage} />
-      <Route path="/trading" component={MobileTradingPage} />
+      <ProtectedRoute path="/" component={MobileTradingPage} />
+      <ProtectedRoute path="/trading" component={TradingPage} />
+      <ProtectedRoute path="/clients" component={ClientManagementPage} permission="clients:view" />
+      <Route path="/login" component={LoginPage} />
+      <Route path="/link/:linkToken" component={LinkAccountPage} />
       <Route component={NotFound} />
     </Switch>
   );
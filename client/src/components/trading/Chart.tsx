@@ -1,10 +1,174 @@
-import { type Market } from "@shared/schema";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { chartTimeframes, type Candle, type CandleStreamRequest, type Market, type Trade } from "@shared/schema";
+import { isUpTradeType } from "@shared/contracts";
+import {
+  describeStudy,
+  indicatorDefinitions,
+  indicatorNames,
+  parseStudy,
+  type IndicatorOutput,
+  type Study,
+} from "@shared/indicators";
+import { useIndicators } from "@/hooks/use-indicators";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type Timeframe = keyof typeof chartTimeframes;
+
+const CANDLE_COUNT = 500;
+const MIN_VISIBLE_CANDLES = 20;
+const DEFAULT_VISIBLE_CANDLES = 80;
+
+const PROFIT_GREEN = "hsl(var(--profit-green))";
+const LOSS_RED = "hsl(var(--loss-red))";
+const INFO_BLUE = "hsl(var(--info-blue))";
+const STUDY_COLORS = ["#F59E0B", "#A855F7", "#06B6D4", "#EC4899", "#84CC16"];
+
+// Overbought and oversold guides for the bounded oscillators
+const STUDY_LEVELS: Partial<Record<Study["name"], number[]>> = {
+  rsi: [30, 70],
+  stochastic: [20, 80],
+};
 
 interface ChartProps {
   market: Market | null;
+  onCandleStreamChange: (params: CandleStreamRequest | null) => void;
+}
+
+type ChartPoint = Candle & {
+  range: [number, number];
+  studies: Record<string, IndicatorOutput | null>;
+};
+
+interface TradeMarker {
+  key: string;
+  epoch: number;
+  price: number;
+  color: string;
+  label: string;
 }
 
-export default function Chart({ market }: ChartProps) {
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export default function Chart({ market, onCandleStreamChange }: ChartProps) {
+  const [activeTimeframe, setActiveTimeframe] = useState<Timeframe>("5m");
+  const [chartType, setChartType] = useState<"candles" | "line">("candles");
+  const [visibleCount, setVisibleCount] = useState(DEFAULT_VISIBLE_CANDLES);
+  const [offset, setOffset] = useState(0); // Candles scrolled back from the latest
+  const [hovered, setHovered] = useState<Candle | null>(null);
+  const [studies, setStudies] = useState<Study[]>([]);
+  const plotRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; offset: number } | null>(null);
+
+  const symbol = market?.symbol;
+  const hasMarket = !!market;
+  const granularity = chartTimeframes[activeTimeframe];
+
+  const { data: candles = [], isLoading, error } = useQuery<Candle[]>({
+    queryKey: [`/api/markets/${encodeURIComponent(symbol || "")}/candles?granularity=${granularity}&count=${CANDLE_COUNT}`],
+    enabled: !!symbol,
+    // Series are only kept live while streamed, so refetch when returning to one
+    staleTime: 0,
+  });
+
+  const { data: trades = [] } = useQuery<Trade[]>({
+    queryKey: ['/api/trades'],
+  });
+
+  // Follow the live candle of the series on screen
+  useEffect(() => {
+    setVisibleCount(DEFAULT_VISIBLE_CANDLES);
+    setOffset(0);
+    setHovered(null);
+    if (!symbol) return;
+
+    onCandleStreamChange({ symbol, granularity });
+    return () => onCandleStreamChange(null);
+  }, [symbol, granularity, onCandleStreamChange]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const element = plotRef.current;
+    if (!element) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const factor = event.deltaY > 0 ? 1.15 : 1 / 1.15;
+      setVisibleCount((count) => clamp(Math.round(count * factor), MIN_VISIBLE_CANDLES, CANDLE_COUNT));
+    };
+
+    element.addEventListener("wheel", handleWheel, { passive: false });
+    return () => element.removeEventListener("wheel", handleWheel);
+  }, [hasMarket]);
+
+  const studyValues = useIndicators(`${symbol}:${granularity}`, candles, studies);
+
+  const maxOffset = Math.max(0, candles.length - MIN_VISIBLE_CANDLES);
+  const end = candles.length - Math.min(offset, maxOffset);
+
+  const visibleCandles = useMemo<ChartPoint[]>(() => {
+    const start = Math.max(0, end - visibleCount);
+    return candles.slice(start, end).map((candle, index) => ({
+      ...candle,
+      range: [candle.low, candle.high],
+      studies: Object.fromEntries(studyValues.map(({ study, values }) => [study.id, values[start + index] ?? null])),
+    }));
+  }, [candles, end, visibleCount, studyValues]);
+
+  // Entry and exit of the user's own trades, pinned to the candle they fell in
+  const markers = useMemo<TradeMarker[]>(() => {
+    const epochs = new Set(visibleCandles.map((candle) => candle.epoch));
+    const toEpoch = (time: Date | string | null) => {
+      if (!time) return null;
+      const epoch = Math.floor(new Date(time).getTime() / 1000 / granularity) * granularity;
+      return epochs.has(epoch) ? epoch : null;
+    };
+
+    return trades
+      .filter((trade) => trade.symbol === symbol)
+      .flatMap((trade) => {
+        const up = isUpTradeType(trade.tradeType);
+        const result: TradeMarker[] = [];
+
+        const entryEpoch = toEpoch(trade.createdAt);
+        const entryPrice = parseFloat(trade.entryPrice || "");
+        if (entryEpoch !== null && entryPrice > 0) {
+          result.push({
+            key: `${trade.id}-entry`,
+            epoch: entryEpoch,
+            price: entryPrice,
+            color: up ? PROFIT_GREEN : LOSS_RED,
+            label: up ? "▲" : "▼",
+          });
+        }
+
+        const exitEpoch = toEpoch(trade.closedAt);
+        const exitPrice = parseFloat(trade.exitPrice || "");
+        if (exitEpoch !== null && exitPrice > 0) {
+          result.push({
+            key: `${trade.id}-exit`,
+            epoch: exitEpoch,
+            price: exitPrice,
+            color: INFO_BLUE,
+            label: "✕",
+          });
+        }
+
+        return result;
+      });
+  }, [trades, symbol, granularity, visibleCandles]);
+
   if (!market) {
     return (
       <div className="flex-1 bg-[hsl(var(--trading-dark))] p-6">
@@ -19,8 +183,56 @@ export default function Chart({ market }: ChartProps) {
     );
   }
 
-  const timeframes = ["1m", "5m", "15m", "1h", "1d"];
-  const [activeTimeframe, setActiveTimeframe] = useState("5m");
+  const timeframes = Object.keys(chartTimeframes) as Timeframe[];
+  const livePrice = parseFloat(market.currentPrice || "");
+  const legend = hovered ?? candles[candles.length - 1];
+
+  const formatTime = (epoch: number) => {
+    const date = new Date(epoch * 1000);
+    return granularity >= 86400
+      ? date.toLocaleDateString([], { month: "short", day: "numeric" })
+      : date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  };
+
+  const overlayStudies = studies.filter((study) => indicatorDefinitions[study.name].pane === "overlay");
+  const paneStudies = studies.filter((study) => indicatorDefinitions[study.name].pane === "separate");
+
+  const addStudy = (name: string) => {
+    const study = parseStudy(name);
+    if (study && !studies.some((existing) => existing.id === study.id)) {
+      setStudies([...studies, study]);
+    }
+  };
+
+  const studyLines = (study: Study) => {
+    const studyIndex = studies.indexOf(study);
+    return indicatorDefinitions[study.name].outputs.map((output, outputIndex) => {
+      const color = STUDY_COLORS[(studyIndex + outputIndex) % STUDY_COLORS.length];
+      const dataKey = (point: ChartPoint) => point.studies[study.id]?.[output] ?? null;
+      return output === "histogram" ? (
+        <Bar key={output} dataKey={dataKey} fill={color} isAnimationActive={false} />
+      ) : (
+        <Line key={output} dataKey={dataKey} stroke={color} dot={false} strokeWidth={1.5} isAnimationActive={false} />
+      );
+    });
+  };
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    dragRef.current = { x: event.clientX, offset };
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !plotRef.current) return;
+
+    const candleWidth = plotRef.current.clientWidth / visibleCount;
+    const shift = Math.round((event.clientX - drag.x) / candleWidth);
+    setOffset(clamp(drag.offset + shift, 0, maxOffset));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
 
   return (
     <div className="flex-1 p-6">
@@ -32,8 +244,8 @@ export default function Chart({ market }: ChartProps) {
             <div className="flex items-center space-x-2">
               <span className="text-2xl font-bold text-white">{market.currentPrice}</span>
               <span className={`text-sm flex items-center ${
-                parseFloat(market.change || "0") >= 0 
-                  ? "text-[hsl(var(--profit-green))]" 
+                parseFloat(market.change || "0") >= 0
+                  ? "text-[hsl(var(--profit-green))]"
                   : "text-[hsl(var(--loss-red))]"
               }`}>
                 <i className={`fas fa-arrow-${parseFloat(market.change || "0") >= 0 ? "up" : "down"} mr-1`}></i>
@@ -41,7 +253,7 @@ export default function Chart({ market }: ChartProps) {
               </span>
             </div>
           </div>
-          
+
           <div className="flex items-center space-x-4 text-sm text-white">
             <div>
               <span className="text-gray-400">High:</span>
@@ -59,19 +271,161 @@ export default function Chart({ market }: ChartProps) {
         </div>
 
         {/* Chart Area */}
-        <div className="flex-1 p-6 flex items-center justify-center">
-          <div className="text-center">
-            <div className="w-16 h-16 bg-[hsl(var(--trading-gray))] rounded-full flex items-center justify-center mx-auto mb-4">
-              <i className="fas fa-chart-line text-2xl text-gray-400"></i>
+        <div className="flex-1 p-4 flex flex-col min-h-0">
+          <div className="flex items-center justify-between text-xs mb-2 h-5">
+            {legend ? (
+              <div className="flex space-x-3 text-gray-400">
+                <span>{formatTime(legend.epoch)}</span>
+                <span>O <span className="text-white">{legend.open}</span></span>
+                <span>H <span className="text-white">{legend.high}</span></span>
+                <span>L <span className="text-white">{legend.low}</span></span>
+                <span>C <span className="text-white">{legend.close}</span></span>
+              </div>
+            ) : <span />}
+            <div className="flex items-center space-x-1">
+              <Select value="" onValueChange={addStudy}>
+                <SelectTrigger className="h-6 w-32 text-xs bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white">
+                  <SelectValue placeholder="Indicators" />
+                </SelectTrigger>
+                <SelectContent>
+                  {indicatorNames.map((name) => (
+                    <SelectItem key={name} value={name}>{indicatorDefinitions[name].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {(["candles", "line"] as const).map((type) => (
+                <button
+                  key={type}
+                  onClick={() => setChartType(type)}
+                  className={`px-2 py-0.5 rounded capitalize transition-colors ${
+                    chartType === type
+                      ? "bg-[hsl(var(--info-blue))] text-white"
+                      : "bg-[hsl(var(--trading-gray))] text-white hover:bg-gray-600"
+                  }`}
+                >
+                  {type}
+                </button>
+              ))}
             </div>
-            <div className="text-gray-400 mb-2">Real-Time Price Chart</div>
-            <div className="text-sm text-gray-500 mb-4">Connected to Deriv WebSocket API</div>
-            <div className="flex justify-center space-x-2">
-              <div className="w-2 h-2 bg-[hsl(var(--profit-green))] rounded-full animate-pulse"></div>
-              <div className="w-2 h-2 bg-[hsl(var(--profit-green))] rounded-full animate-pulse" style={{animationDelay: "0.2s"}}></div>
-              <div className="w-2 h-2 bg-[hsl(var(--profit-green))] rounded-full animate-pulse" style={{animationDelay: "0.4s"}}></div>
+          </div>
+
+          {studies.length > 0 && (
+            <div className="flex flex-wrap gap-2 text-xs mb-2">
+              {studies.map((study) => (
+                <span
+                  key={study.id}
+                  className="px-2 py-0.5 rounded bg-[hsl(var(--trading-gray))] text-white"
+                  style={{ borderLeft: `3px solid ${STUDY_COLORS[studies.indexOf(study) % STUDY_COLORS.length]}` }}
+                >
+                  {describeStudy(study)}
+                  <button
+                    onClick={() => setStudies(studies.filter((existing) => existing.id !== study.id))}
+                    className="ml-2 text-gray-400 hover:text-white"
+                  >
+                    <i className="fas fa-times"></i>
+                  </button>
+                </span>
+              ))}
             </div>
-            <p className="text-xs text-gray-500 mt-2">App ID: 76613</p>
+          )}
+
+          <div
+            ref={plotRef}
+            className="flex-1 min-h-0 flex flex-col select-none cursor-crosshair"
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={endDrag}
+            onMouseLeave={endDrag}
+            onDoubleClick={() => {
+              setVisibleCount(DEFAULT_VISIBLE_CANDLES);
+              setOffset(0);
+            }}
+          >
+            {visibleCandles.length > 0 ? (
+              <>
+                <div className="flex-1 min-h-0">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart
+                      data={visibleCandles}
+                      syncId="price-chart"
+                      margin={{ top: 8, right: 8, bottom: 0, left: 0 }}
+                      onMouseMove={(state) => setHovered(state?.activePayload?.[0]?.payload ?? null)}
+                      onMouseLeave={() => setHovered(null)}
+                    >
+                      <CartesianGrid stroke="hsl(var(--trading-gray))" strokeDasharray="3 3" />
+                      <XAxis
+                        dataKey="epoch"
+                        tickFormatter={formatTime}
+                        stroke="#9CA3AF"
+                        tick={{ fontSize: 11 }}
+                        minTickGap={40}
+                      />
+                      <YAxis
+                        orientation="right"
+                        domain={["auto", "auto"]}
+                        stroke="#9CA3AF"
+                        tick={{ fontSize: 11 }}
+                        width={70}
+                      />
+                      {chartType === "candles" ? (
+                        <Bar dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+                      ) : (
+                        <Line dataKey="close" stroke={INFO_BLUE} dot={false} strokeWidth={2} isAnimationActive={false} />
+                      )}
+                      {overlayStudies.flatMap(studyLines)}
+                      {livePrice > 0 && (
+                        <ReferenceLine y={livePrice} stroke={INFO_BLUE} strokeDasharray="4 4" />
+                      )}
+                      {hovered && (
+                        <ReferenceLine x={hovered.epoch} stroke="#9CA3AF" strokeDasharray="2 2" />
+                      )}
+                      {hovered && (
+                        <ReferenceLine y={hovered.close} stroke="#9CA3AF" strokeDasharray="2 2" />
+                      )}
+                      {markers.map((marker) => (
+                        <ReferenceDot
+                          key={marker.key}
+                          x={marker.epoch}
+                          y={marker.price}
+                          r={5}
+                          fill={marker.color}
+                          stroke="none"
+                          label={{ value: marker.label, position: "top", fill: marker.color, fontSize: 12 }}
+                        />
+                      ))}
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+                {paneStudies.map((study) => (
+                  <div key={study.id} className="h-24 border-t border-[hsl(var(--trading-gray))]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={visibleCandles} syncId="price-chart" margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+                        <XAxis dataKey="epoch" hide />
+                        <YAxis
+                          orientation="right"
+                          domain={["auto", "auto"]}
+                          stroke="#9CA3AF"
+                          tick={{ fontSize: 10 }}
+                          width={70}
+                        />
+                        {STUDY_LEVELS[study.name]?.map((level) => (
+                          <ReferenceLine key={level} y={level} stroke="#6B7280" strokeDasharray="2 2" />
+                        ))}
+                        {studyLines(study)}
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                ))}
+              </>
+            ) : (
+              <div className="h-full flex items-center justify-center text-sm text-gray-500">
+                {isLoading
+                  ? "Loading price history..."
+                  : error
+                    ? "Price history unavailable while disconnected from Deriv"
+                    : "No price history for this market"}
+              </div>
+            )}
           </div>
         </div>
 
@@ -110,7 +464,22 @@ export default function Chart({ market }: ChartProps) {
   );
 }
 
-function useState<T>(initialValue: T): [T, (value: T) => void] {
-  // Simple mock implementation for demo
-  return [initialValue as T, () => {}];
+// Recharts sizes the bar to the candle's low-high range; draw the wick and body inside it
+function CandleShape(props: { x?: number; y?: number; width?: number; height?: number; payload?: Candle }) {
+  const { x = 0, y = 0, width = 0, height = 0, payload } = props;
+  if (!payload) return null;
+
+  const { open, high, low, close } = payload;
+  const color = close >= open ? PROFIT_GREEN : LOSS_RED;
+  const scale = high === low ? 0 : height / (high - low);
+  const bodyTop = y + (high - Math.max(open, close)) * scale;
+  const bodyHeight = Math.max(1, Math.abs(close - open) * scale);
+  const center = x + width / 2;
+
+  return (
+    <g stroke={color} fill={color}>
+      <line x1={center} x2={center} y1={y} y2={y + height} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} />
+    </g>
+  );
 }
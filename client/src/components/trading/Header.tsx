@@ -1,5 +1,6 @@
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
 
 interface HeaderProps {
   user: any;
@@ -7,6 +8,8 @@ interface HeaderProps {
 }
 
 export default function Header({ user, isConnected }: HeaderProps) {
+  const { can } = useAuth();
+
   const formatTime = () => {
     return new Date().toLocaleTimeString('en-US', {
       hour12: false,
@@ -45,11 +48,13 @@ export default function Header({ user, isConnected }: HeaderProps) {
             +$347.20
           </p>
         </div>
-        <Link href="/clients">
-          <Button className="bg-[hsl(var(--warning-amber))] hover:bg-amber-600 text-black">
-            <i className="fas fa-users mr-2"></i>Manage Clients
-          </Button>
-        </Link>
+        {can("clients:view") && (
+          <Link href="/clients">
+            <Button className="bg-[hsl(var(--warning-amber))] hover:bg-amber-600 text-black">
+              <i className="fas fa-users mr-2"></i>Manage Clients
+            </Button>
+          </Link>
+        )}
         <Button className="bg-[hsl(var(--info-blue))] hover:bg-blue-600 text-white">
           <i className="fas fa-plus mr-2"></i>Deposit
         </Button>
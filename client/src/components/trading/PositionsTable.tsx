@@ -1,8 +1,12 @@
+import { useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { type Trade } from "@shared/schema";
+import { getContractExpiry, isUpTradeType } from "@shared/contracts";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 
 interface PositionsTableProps {
   positions: Trade[];
@@ -13,21 +17,16 @@ export default function PositionsTable({ positions }: PositionsTableProps) {
   const queryClient = useQueryClient();
 
   const closeTradeMutation = useMutation({
-    mutationFn: async ({ tradeId, exitPrice }: { tradeId: number; exitPrice: string }) => {
-      const payout = "0.00"; // Would be calculated based on actual outcome
-      const profit = "-100.00"; // Would be calculated based on actual outcome
-      return apiRequest("POST", `/api/trades/${tradeId}/close`, {
-        exitPrice,
-        payout,
-        profit,
-      });
+    mutationFn: async (tradeId: number) => {
+      const res = await apiRequest("POST", `/api/trades/${tradeId}/close`, {});
+      return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { payout: string; profit: string }) => {
       toast({
         title: "Trade Closed",
-        description: "Your trade has been closed successfully",
+        description: `Sold for $${result.payout} (${parseFloat(result.profit) >= 0 ? "+" : ""}$${result.profit})`,
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/positions/user/1'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/positions'] });
     },
     onError: (error: any) => {
       toast({
@@ -39,10 +38,7 @@ export default function PositionsTable({ positions }: PositionsTableProps) {
   });
 
   const handleCloseTrade = (trade: Trade) => {
-    closeTradeMutation.mutate({
-      tradeId: trade.id,
-      exitPrice: "1.08500", // Would use current market price
-    });
+    closeTradeMutation.mutate(trade.id);
   };
 
   const getMarketIcon = (symbol: string) => {
@@ -59,30 +55,25 @@ export default function PositionsTable({ positions }: PositionsTableProps) {
     return "from-green-500 to-blue-600";
   };
 
-  const calculateTimeLeft = (createdAt: Date | null, duration: number, durationType: string) => {
-    if (!createdAt) return "0m 0s";
-    
-    const now = new Date();
-    const endTime = new Date(createdAt);
-    
-    switch (durationType) {
-      case "minutes":
-        endTime.setMinutes(endTime.getMinutes() + duration);
-        break;
-      case "hours":
-        endTime.setHours(endTime.getHours() + duration);
-        break;
-      case "days":
-        endTime.setDate(endTime.getDate() + duration);
-        break;
-    }
-    
-    const timeLeft = endTime.getTime() - now.getTime();
-    if (timeLeft <= 0) return "Expired";
-    
+  const getRunningProfit = (position: Trade) => {
+    if (!position.bidPrice) return null;
+    return parseFloat(position.bidPrice) - parseFloat(position.stake);
+  };
+
+  const calculateTimeLeft = (position: Trade) => {
+    if (position.needsAttention) return "Needs attention";
+    // Tick contracts end on a tick count rather than a clock time
+    if (position.durationType === "ticks") return `${position.duration} ticks`;
+
+    const endTime = getContractExpiry(position);
+    if (!endTime) return "0m 0s";
+
+    const timeLeft = endTime.getTime() - Date.now();
+    if (timeLeft <= 0) return "Settling";
+
     const minutes = Math.floor(timeLeft / (1000 * 60));
     const seconds = Math.floor((timeLeft % (1000 * 60)) / 1000);
-    
+
     return `${minutes}m ${seconds}s`;
   };
 
@@ -140,7 +131,7 @@ export default function PositionsTable({ positions }: PositionsTableProps) {
                     </td>
                     <td className="py-3">
                       <span className={`px-2 py-1 rounded text-xs font-medium ${
-                        position.tradeType === "CALL"
+                        isUpTradeType(position.tradeType)
                           ? "bg-[hsl(var(--profit-green))]/20 text-[hsl(var(--profit-green))]"
                           : "bg-[hsl(var(--loss-red))]/20 text-[hsl(var(--loss-red))]"
                       }`}>
@@ -150,17 +141,19 @@ export default function PositionsTable({ positions }: PositionsTableProps) {
                     <td className="py-3 text-right text-white">${position.stake}</td>
                     <td className="py-3 text-right text-white">{position.entryPrice}</td>
                     <td className="py-3 text-right">
-                      <span className="text-[hsl(var(--profit-green))]">
-                        +${((parseFloat(position.stake) * 1.85) - parseFloat(position.stake)).toFixed(2)}
-                      </span>
+                      <RunningProfit profit={getRunningProfit(position)} />
                     </td>
                     <td className="py-3 text-right text-[hsl(var(--warning-amber))]">
-                      {calculateTimeLeft(position.createdAt, position.duration, position.durationType)}
+                      {position.multiplier ? (
+                        <LimitOrders position={position} />
+                      ) : (
+                        calculateTimeLeft(position)
+                      )}
                     </td>
                     <td className="py-3 text-right">
                       <Button
                         onClick={() => handleCloseTrade(position)}
-                        disabled={closeTradeMutation.isPending}
+                        disabled={closeTradeMutation.isPending || !(position.derivTradeId || position.paper)}
                         variant="ghost"
                         size="sm"
                         className="text-[hsl(var(--loss-red))] hover:bg-[hsl(var(--loss-red))]/20"
@@ -178,3 +171,90 @@ export default function PositionsTable({ positions }: PositionsTableProps) {
     </div>
   );
 }
+
+function RunningProfit({ profit }: { profit: number | null }) {
+  if (profit === null) {
+    return <span className="text-gray-400">--</span>;
+  }
+
+  return (
+    <span className={profit >= 0 ? "text-[hsl(var(--profit-green))]" : "text-[hsl(var(--loss-red))]"}>
+      {profit >= 0 ? "+" : "-"}${Math.abs(profit).toFixed(2)}
+    </span>
+  );
+}
+
+function LimitOrders({ position }: { position: Trade }) {
+  const [open, setOpen] = useState(false);
+  const [stopLoss, setStopLoss] = useState(position.stopLoss ?? "");
+  const [takeProfit, setTakeProfit] = useState(position.takeProfit ?? "");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const updateLimitOrdersMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PATCH", `/api/trades/${position.id}/limit-orders`, {
+        stopLoss: stopLoss || null,
+        takeProfit: takeProfit || null,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Limit Orders Updated",
+        description: `${position.symbol} x${position.multiplier} stop loss and take profit saved`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/positions'] });
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update limit orders",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const summary = [
+    `x${position.multiplier}`,
+    position.stopLoss ? `SL $${position.stopLoss}` : null,
+    position.takeProfit ? `TP $${position.takeProfit}` : null,
+    position.dealCancellation ? `DC ${position.dealCancellation}` : null,
+  ].filter(Boolean).join(" · ");
+
+  if (position.dealCancellation || !(position.derivTradeId || position.paper)) {
+    return <span>{summary}</span>;
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button className="hover:underline">{summary}</button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 bg-[hsl(var(--trading-slate))] border-[hsl(var(--trading-gray))] space-y-2">
+        <Input
+          type="number"
+          value={stopLoss}
+          onChange={(e) => setStopLoss(e.target.value)}
+          className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
+          placeholder="Stop loss $"
+        />
+        <Input
+          type="number"
+          value={takeProfit}
+          onChange={(e) => setTakeProfit(e.target.value)}
+          className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
+          placeholder="Take profit $"
+        />
+        <Button
+          onClick={() => updateLimitOrdersMutation.mutate()}
+          disabled={updateLimitOrdersMutation.isPending}
+          size="sm"
+          className="w-full bg-[hsl(var(--info-blue))] hover:bg-blue-600 text-white"
+        >
+          Save
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,16 +1,24 @@
+import { useEffect } from "react";
 import { type Market } from "@shared/schema";
 
 interface SidebarProps {
   markets: Market[];
   selectedMarket: Market | null;
   onSelectMarket: (market: Market) => void;
+  onVisibleSymbolsChange?: (symbols: string[]) => void;
 }
 
-export default function Sidebar({ markets, selectedMarket, onSelectMarket }: SidebarProps) {
+export default function Sidebar({ markets, selectedMarket, onSelectMarket, onVisibleSymbolsChange }: SidebarProps) {
   const categories = ["forex", "crypto", "indices"];
   const [activeCategory, setActiveCategory] = useState("forex");
 
   const filteredMarkets = markets.filter(market => market.category === activeCategory);
+  const visibleSymbols = filteredMarkets.map((market) => market.symbol).join(",");
+
+  // Live prices are only streamed for the markets on screen
+  useEffect(() => {
+    onVisibleSymbolsChange?.(visibleSymbols ? visibleSymbols.split(",") : []);
+  }, [visibleSymbols, onVisibleSymbolsChange]);
 
   const getMarketIcon = (symbol: string) => {
     if (symbol.includes("EUR")) return "€";
@@ -81,7 +89,14 @@ export default function Sidebar({ markets, selectedMarket, onSelectMarket }: Sid
                   </span>
                 </div>
                 <div>
-                  <div className="font-medium text-white">{market.symbol}</div>
+                  <div className="font-medium text-white">
+                    {market.symbol}
+                    {market.dataSource !== "live" && (
+                      <span className="ml-2 px-1 rounded text-[10px] uppercase text-yellow-400 border border-yellow-400/40">
+                        {market.dataSource === "replay" ? "Replay" : "Sim"}
+                      </span>
+                    )}
+                  </div>
                   <div className="text-xs text-gray-400">{market.name}</div>
                 </div>
               </div>
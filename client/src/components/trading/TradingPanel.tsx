@@ -1,30 +1,159 @@
-import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { type Market } from "@shared/schema";
+import { type Market, type PlaceTradeRequest, type Proposal, type ProposalRequest } from "@shared/schema";
+import {
+  contractCategories,
+  dealCancellationPeriods,
+  getContractCategory,
+  MAX_TICK_DURATION,
+  validateContract,
+  type ContractCategory,
+  type ContractOffering,
+  type DurationType,
+} from "@shared/contracts";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
+const durationLabels: Record<DurationType, string> = {
+  ticks: "Ticks",
+  seconds: "Seconds",
+  minutes: "Minutes",
+  hours: "Hours",
+  days: "Days",
+};
+
+// The server places the trade for the signed-in user
+type TradeOrder = Omit<PlaceTradeRequest, "userId">;
+
 interface TradingPanelProps {
   market: Market | null;
   userBalance: string;
+  isConnected: boolean;
+  proposal: Proposal | null;
+  proposalError: string | null;
+  onProposalChange: (params: ProposalRequest | null) => void;
 }
 
-export default function TradingPanel({ market, userBalance }: TradingPanelProps) {
-  const [tradeType, setTradeType] = useState<"CALL" | "PUT">("CALL");
+export default function TradingPanel({
+  market,
+  userBalance,
+  isConnected,
+  proposal,
+  proposalError,
+  onProposalChange,
+}: TradingPanelProps) {
+  const [direction, setDirection] = useState<0 | 1>(0);
   const [stakeAmount, setStakeAmount] = useState("100.00");
   const [duration, setDuration] = useState("5");
-  const [durationType, setDurationType] = useState("minutes");
-  const [contractType, setContractType] = useState("Higher/Lower");
+  const [durationType, setDurationType] = useState<DurationType | "endtime">("minutes");
+  const [endTime, setEndTime] = useState("");
+  const [contractType, setContractType] = useState("Rise/Fall");
+  const [barrier, setBarrier] = useState("");
+  const [barrier2, setBarrier2] = useState("");
+  const [multiplier, setMultiplier] = useState("");
+  const [stopLoss, setStopLoss] = useState("");
+  const [takeProfit, setTakeProfit] = useState("");
+  const [dealCancellation, setDealCancellation] = useState("none");
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: offerings } = useQuery<ContractOffering[]>({
+    queryKey: [`/api/markets/${encodeURIComponent(market?.symbol || "")}/contracts`],
+    enabled: !!market,
+  });
+
+  const offering: ContractCategory | undefined =
+    offerings?.find((item) => item.name === contractType) ?? getContractCategory(contractType);
+  const tradeType = offering?.tradeTypes[direction] ?? "CALL";
+
+  // Fall back to the first offered contract when the market lacks the current one
+  useEffect(() => {
+    if (offerings?.length && !offerings.some((item) => item.name === contractType)) {
+      setContractType(offerings[0].name);
+    }
+  }, [offerings, contractType]);
+
+  // Seed barriers and multiplier from Deriv's defaults for the chosen contract
+  useEffect(() => {
+    const offered = offerings?.find((item) => item.name === contractType);
+    setBarrier(offered?.defaultBarrier ?? (offered?.digitBarrier ? "5" : ""));
+    setBarrier2(offered?.defaultBarrier2 ?? "");
+    setMultiplier(offered?.multipliers[0]?.toString() ?? "");
+  }, [offerings, contractType]);
+
+  // Keep the duration unit within what the contract accepts
+  useEffect(() => {
+    if (!offering?.usesDuration) return;
+    if (durationType === "endtime" ? !offering.endTime : !offering.durationTypes.includes(durationType)) {
+      setDurationType(offering.durationTypes[0]);
+    }
+  }, [offering, durationType]);
+
+  const buildContract = (): ProposalRequest | null => {
+    if (!market || !offering) return null;
+
+    const contract: ProposalRequest = {
+      symbol: market.symbol,
+      contractType,
+      tradeType,
+      stake: stakeAmount,
+      currency: "USD",
+      ...(offering.usesDuration
+        ? durationType === "endtime"
+          ? { dateExpiry: endTime ? new Date(endTime) : undefined }
+          : { duration: parseInt(duration) || undefined, durationType }
+        : {
+            multiplier: parseInt(multiplier) || undefined,
+            stopLoss: stopLoss || undefined,
+            takeProfit: takeProfit || undefined,
+            dealCancellation: dealCancellation === "none"
+              ? undefined
+              : dealCancellation as ProposalRequest["dealCancellation"],
+          }),
+      ...(offering.barriers >= 1 ? { barrier } : {}),
+      ...(offering.barriers === 2 ? { barrier2 } : {}),
+    };
+
+    return parseFloat(stakeAmount) > 0 && !validateContract(contract) ? contract : null;
+  };
+
+  // Re-price the contract whenever its parameters settle
+  useEffect(() => {
+    const contract = buildContract();
+    if (!contract || !isConnected) {
+      onProposalChange(null);
+      return;
+    }
+
+    const timer = setTimeout(() => onProposalChange(contract), 300);
+    return () => clearTimeout(timer);
+  }, [
+    market?.symbol,
+    isConnected,
+    contractType,
+    tradeType,
+    stakeAmount,
+    duration,
+    durationType,
+    endTime,
+    barrier,
+    barrier2,
+    multiplier,
+    stopLoss,
+    takeProfit,
+    dealCancellation,
+    onProposalChange,
+  ]);
+
+  useEffect(() => () => onProposalChange(null), [onProposalChange]);
+
   const placeTradeMutation = useMutation({
-    mutationFn: async (tradeData: any) => {
+    mutationFn: async (tradeData: TradeOrder) => {
       return apiRequest("POST", "/api/trades", tradeData);
     },
     onSuccess: () => {
@@ -32,9 +161,9 @@ export default function TradingPanel({ market, userBalance }: TradingPanelProps)
         title: "Trade Executed",
         description: `Your ${market?.symbol} trade has been placed successfully`,
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/positions/user/1'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/positions'] });
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast({
         title: "Trade Failed",
         description: error.message || "Failed to place trade",
@@ -53,22 +182,28 @@ export default function TradingPanel({ market, userBalance }: TradingPanelProps)
       return;
     }
 
-    const tradeData = {
-      userId: 1, // Demo user ID
-      symbol: market.symbol,
-      tradeType,
-      contractType,
-      stake: stakeAmount,
-      duration: parseInt(duration),
-      durationType,
-      status: "open",
+    const contract = buildContract();
+    if (!contract) {
+      toast({
+        title: "Incomplete Trade",
+        description: "Please fill in all contract parameters",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { currency, ...contractFields } = contract;
+    const tradeData: TradeOrder = {
+      ...contractFields,
+      proposalId: proposal?.id,
+      maxPrice: proposal?.askPrice.toFixed(2),
     };
 
     placeTradeMutation.mutate(tradeData);
   };
 
-  const potentialPayout = (parseFloat(stakeAmount) * 1.85).toFixed(2);
-  const potentialProfit = (parseFloat(potentialPayout) - parseFloat(stakeAmount)).toFixed(2);
+  const potentialPayout = proposal ? proposal.payout.toFixed(2) : "--";
+  const potentialProfit = proposal ? (proposal.payout - proposal.askPrice).toFixed(2) : "--";
 
   return (
     <div className="w-80 bg-[hsl(var(--trading-slate))] border-r border-[hsl(var(--trading-gray))] p-6 overflow-y-auto">
@@ -101,10 +236,9 @@ export default function TradingPanel({ market, userBalance }: TradingPanelProps)
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="Higher/Lower">Higher/Lower</SelectItem>
-            <SelectItem value="Touch/No Touch">Touch/No Touch</SelectItem>
-            <SelectItem value="In/Out">In/Out</SelectItem>
-            <SelectItem value="Asian Options">Asian Options</SelectItem>
+            {(offerings ?? contractCategories).map((category) => (
+              <SelectItem key={category.name} value={category.name}>{category.name}</SelectItem>
+            ))}
           </SelectContent>
         </Select>
       </div>
@@ -114,28 +248,109 @@ export default function TradingPanel({ market, userBalance }: TradingPanelProps)
         <Label className="block text-sm font-medium mb-2 text-white">Prediction</Label>
         <div className="grid grid-cols-2 gap-2">
           <Button
-            onClick={() => setTradeType("CALL")}
+            onClick={() => setDirection(0)}
             className={`px-4 py-3 font-medium transition-colors ${
-              tradeType === "CALL"
+              direction === 0
                 ? "bg-[hsl(var(--profit-green))] hover:bg-green-600 text-white"
                 : "bg-[hsl(var(--trading-gray))] hover:bg-gray-600 text-white"
             }`}
           >
-            <i className="fas fa-arrow-up mr-2"></i>HIGHER
+            <i className="fas fa-arrow-up mr-2"></i>{offering?.labels[0] ?? "HIGHER"}
           </Button>
           <Button
-            onClick={() => setTradeType("PUT")}
+            onClick={() => setDirection(1)}
             className={`px-4 py-3 font-medium transition-colors ${
-              tradeType === "PUT"
+              direction === 1
                 ? "bg-[hsl(var(--loss-red))] hover:bg-red-600 text-white"
                 : "bg-[hsl(var(--trading-gray))] hover:bg-gray-600 text-white"
             }`}
           >
-            <i className="fas fa-arrow-down mr-2"></i>LOWER
+            <i className="fas fa-arrow-down mr-2"></i>{offering?.labels[1] ?? "LOWER"}
           </Button>
         </div>
       </div>
 
+      {/* Barriers */}
+      {offering && offering.barriers > 0 && (
+        <div className="mb-6">
+          <Label className="block text-sm font-medium mb-2 text-white">
+            {offering.digitBarrier ? "Last Digit" : offering.barriers === 2 ? "High / Low Barrier" : "Barrier"}
+          </Label>
+          <div className={`grid gap-2 ${offering.barriers === 2 ? "grid-cols-2" : "grid-cols-1"}`}>
+            <Input
+              type={offering.digitBarrier ? "number" : "text"}
+              min={offering.digitBarrier ? 0 : undefined}
+              max={offering.digitBarrier ? 9 : undefined}
+              value={barrier}
+              onChange={(e) => setBarrier(e.target.value)}
+              className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
+              placeholder={offering.digitBarrier ? "0-9" : "+0.001"}
+            />
+            {offering.barriers === 2 && (
+              <Input
+                value={barrier2}
+                onChange={(e) => setBarrier2(e.target.value)}
+                className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
+                placeholder="-0.001"
+              />
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Multiplier */}
+      {offering && !offering.usesDuration && (
+        <div className="mb-6">
+          <Label className="block text-sm font-medium mb-2 text-white">Multiplier</Label>
+          <Input
+            type="number"
+            value={multiplier}
+            onChange={(e) => setMultiplier(e.target.value)}
+            className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
+            placeholder="100"
+          />
+          <div className="grid grid-cols-2 gap-2 mt-2">
+            <Input
+              type="number"
+              value={stopLoss}
+              onChange={(e) => setStopLoss(e.target.value)}
+              disabled={dealCancellation !== "none"}
+              className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
+              placeholder="Stop loss $"
+            />
+            <Input
+              type="number"
+              value={takeProfit}
+              onChange={(e) => setTakeProfit(e.target.value)}
+              disabled={dealCancellation !== "none"}
+              className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
+              placeholder="Take profit $"
+            />
+          </div>
+          <Label className="block text-sm font-medium mt-4 mb-2 text-white">Deal Cancellation</Label>
+          <Select
+            value={dealCancellation}
+            onValueChange={(value) => {
+              setDealCancellation(value);
+              if (value !== "none") {
+                setStopLoss("");
+                setTakeProfit("");
+              }
+            }}
+          >
+            <SelectTrigger className="w-full bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Off</SelectItem>
+              {dealCancellationPeriods.map((period) => (
+                <SelectItem key={period} value={period}>{period}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       {/* Stake Amount */}
       <div className="mb-6">
         <Label className="block text-sm font-medium mb-2 text-white">Stake Amount</Label>
@@ -165,28 +380,42 @@ export default function TradingPanel({ market, userBalance }: TradingPanelProps)
       </div>
 
       {/* Duration */}
-      <div className="mb-6">
-        <Label className="block text-sm font-medium mb-2 text-white">Duration</Label>
-        <div className="grid grid-cols-2 gap-2">
-          <Input
-            type="number"
-            value={duration}
-            onChange={(e) => setDuration(e.target.value)}
-            className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
-            placeholder="5"
-          />
-          <Select value={durationType} onValueChange={setDurationType}>
-            <SelectTrigger className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="minutes">Minutes</SelectItem>
-              <SelectItem value="hours">Hours</SelectItem>
-              <SelectItem value="days">Days</SelectItem>
-            </SelectContent>
-          </Select>
+      {offering?.usesDuration !== false && (
+        <div className="mb-6">
+          <Label className="block text-sm font-medium mb-2 text-white">Duration</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {durationType === "endtime" ? (
+              <Input
+                type="datetime-local"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
+              />
+            ) : (
+              <Input
+                type="number"
+                min={1}
+                max={durationType === "ticks" ? MAX_TICK_DURATION : undefined}
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+                className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
+                placeholder="5"
+              />
+            )}
+            <Select value={durationType} onValueChange={(value) => setDurationType(value as DurationType | "endtime")}>
+              <SelectTrigger className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(offering?.durationTypes ?? []).map((type) => (
+                  <SelectItem key={type} value={type}>{durationLabels[type]}</SelectItem>
+                ))}
+                {offering?.endTime && <SelectItem value="endtime">End Time</SelectItem>}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Potential Payout */}
       <div className="bg-[hsl(var(--trading-gray))] rounded-lg p-4 mb-6">
@@ -198,6 +427,12 @@ export default function TradingPanel({ market, userBalance }: TradingPanelProps)
           <span className="text-sm text-gray-400">Potential Profit</span>
           <span className="text-sm font-medium text-[hsl(var(--profit-green))]">${potentialProfit}</span>
         </div>
+        {proposal && (
+          <p className="text-xs text-gray-400 mt-3">{proposal.longcode}</p>
+        )}
+        {proposalError && (
+          <p className="text-xs text-[hsl(var(--loss-red))] mt-3">{proposalError}</p>
+        )}
       </div>
 
       {/* Place Trade Button */}
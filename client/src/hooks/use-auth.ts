@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import { hasPermission, type Permission } from "@shared/roles";
+import type { PublicUser } from "@shared/schema";
+
+// The signed-in user, or null once the session check answers 401
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    can: (permission: Permission) => hasPermission(user?.role, permission),
+  };
+}
@@ -1,11 +1,75 @@
-import { useState, useEffect, useRef } from "react";
-import { type Market } from "@shared/schema";
+import { useState, useEffect, useRef, useCallback } from "react";
+import {
+  type Candle,
+  type CandleStreamRequest,
+  type Market,
+  type Proposal,
+  type ProposalRequest,
+  type Trade,
+  type WsSubscribeRequest,
+  type WsUnsubscribeRequest,
+} from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+const hasKeyPrefix = (prefix: string) => (query: { queryKey: readonly unknown[] }) =>
+  String(query.queryKey[0]).startsWith(prefix);
+
+// Replaces the live candle, or rolls the series forward when a new one opens
+const mergeCandle = (candles: Candle[], candle: Candle) => {
+  const last = candles[candles.length - 1];
+  if (last?.epoch === candle.epoch) {
+    return [...candles.slice(0, -1), candle];
+  }
+  if (!last || candle.epoch > last.epoch) {
+    return [...candles.slice(1), candle];
+  }
+  return candles;
+};
+
+// Applies partial price updates to the markets they name
+const mergePrices = (markets: Market[], updates: Map<string, Partial<Market>>) =>
+  markets.map((market) => {
+    const update = updates.get(market.symbol);
+    return update ? { ...market, ...update } : market;
+  });
 
 export function useDerivAPI() {
   const [markets, setMarkets] = useState<Market[]>([]);
   const [selectedMarket, setSelectedMarket] = useState<Market | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const [proposal, setProposal] = useState<Proposal | null>(null);
+  const [proposalError, setProposalError] = useState<string | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
+  const candleStreamRef = useRef<CandleStreamRequest | null>(null);
+  const proposalRef = useRef<ProposalRequest | null>(null);
+  // Symbols the page shows, and the ones the server is currently streaming to us
+  const watchedSymbolsRef = useRef<string[]>([]);
+  const selectedSymbolRef = useRef<string | null>(null);
+  const streamedSymbolsRef = useRef(new Set<string>());
+
+  const send = useCallback((message: ({ type: 'subscribe' } & WsSubscribeRequest) | ({ type: 'unsubscribe' } & WsUnsubscribeRequest)) => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return false;
+    ws.send(JSON.stringify(message));
+    return true;
+  }, []);
+
+  // Brings the server's tick subscriptions in line with what is on screen
+  const syncTicks = useCallback(() => {
+    const wanted = new Set(watchedSymbolsRef.current);
+    if (selectedSymbolRef.current) wanted.add(selectedSymbolRef.current);
+
+    const streamed = streamedSymbolsRef.current;
+    const added = Array.from(wanted).filter((symbol) => !streamed.has(symbol));
+    const removed = Array.from(streamed).filter((symbol) => !wanted.has(symbol));
+
+    if (added.length && send({ type: 'subscribe', channel: 'ticks', symbols: added })) {
+      added.forEach((symbol) => streamed.add(symbol));
+    }
+    if (removed.length && send({ type: 'unsubscribe', channel: 'ticks', symbols: removed })) {
+      removed.forEach((symbol) => streamed.delete(symbol));
+    }
+  }, [send]);
 
   useEffect(() => {
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
@@ -23,6 +87,17 @@ export function useDerivAPI() {
         type: 'deriv_connect',
         app_id: '76613'
       }));
+
+      // Anything the page asked for before the socket opened
+      streamedSymbolsRef.current.clear();
+      syncTicks();
+      send({ type: 'subscribe', channel: 'trades' });
+      if (candleStreamRef.current) {
+        send({ type: 'subscribe', channel: 'candles', params: candleStreamRef.current });
+      }
+      if (proposalRef.current) {
+        send({ type: 'subscribe', channel: 'proposal', params: proposalRef.current });
+      }
     };
 
     ws.onmessage = (event) => {
@@ -32,32 +107,73 @@ export function useDerivAPI() {
         switch (data.type) {
           case 'markets':
             setMarkets(data.data);
-            if (!selectedMarket && data.data.length > 0) {
-              setSelectedMarket(data.data[0]);
-            }
+            setSelectedMarket((selected) => selected ?? data.data[0] ?? null);
             break;
             
-          case 'price_update':
-            setMarkets(data.data);
-            // Update selected market if it matches
-            if (selectedMarket) {
-              const updatedMarket = data.data.find((m: Market) => m.symbol === selectedMarket.symbol);
-              if (updatedMarket) {
-                setSelectedMarket(updatedMarket);
-              }
-            }
+          case 'price_update': {
+            const updates = new Map<string, Partial<Market>>(
+              data.data.map((update: Partial<Market> & { symbol: string }) => [update.symbol, update])
+            );
+            setMarkets((current) => mergePrices(current, updates));
+            setSelectedMarket((selected) => selected && mergePrices([selected], updates)[0]);
             break;
+          }
             
           case 'deriv_status':
             console.log('Deriv API status:', data.status, 'App ID:', data.app_id);
             break;
             
+          case 'proposal':
+            setProposal(data.data);
+            setProposalError(null);
+            break;
+
+          case 'subscription_error':
+            if (data.channel === 'proposal') {
+              setProposal(null);
+              setProposalError(data.message);
+            } else {
+              console.error(`Subscription to ${data.channel} failed:`, data.message);
+            }
+            break;
+            
+          case 'candle_update': {
+            const { symbol, granularity, candle } = data.data;
+            queryClient.setQueriesData<Candle[]>(
+              { predicate: hasKeyPrefix(`/api/markets/${encodeURIComponent(symbol)}/candles?granularity=${granularity}&`) },
+              (candles) => candles && mergeCandle(candles, candle)
+            );
+            break;
+          }
+
           case 'trade_placed':
             console.log('Trade placed:', data.data);
+            queryClient.invalidateQueries({ predicate: hasKeyPrefix('/api/positions') });
+            queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
             break;
             
+          case 'trade_updated': {
+            const { tradeId, ...fields } = data.data;
+            queryClient.setQueriesData<Trade[]>(
+              { predicate: hasKeyPrefix('/api/positions') },
+              (positions) => positions?.map((position) =>
+                position.id === tradeId
+                  ? { ...position, ...fields, entryPrice: fields.entryPrice ?? position.entryPrice }
+                  : position
+              )
+            );
+            break;
+          }
+            
+          case 'trade_attention':
+            queryClient.invalidateQueries({ predicate: hasKeyPrefix('/api/positions') });
+            break;
+
           case 'trade_closed':
             console.log('Trade closed:', data.data);
+            queryClient.invalidateQueries({ predicate: hasKeyPrefix('/api/positions') });
+            queryClient.invalidateQueries({ predicate: hasKeyPrefix('/api/trades') });
+            queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
             break;
         }
       } catch (error) {
@@ -78,13 +194,47 @@ export function useDerivAPI() {
     return () => {
       ws.close();
     };
-  }, []);
+  }, [send, syncTicks]);
+
+  // The selected market is always priced live, even when it is scrolled out of the list
+  const selectedSymbol = selectedMarket?.symbol ?? null;
+  useEffect(() => {
+    selectedSymbolRef.current = selectedSymbol;
+    syncTicks();
+  }, [selectedSymbol, syncTicks]);
+
+  // Streams ticks for exactly these symbols (plus the selected market)
+  const watchSymbols = useCallback((symbols: string[]) => {
+    watchedSymbolsRef.current = symbols;
+    syncTicks();
+  }, [syncTicks]);
+
+  // Streams live pricing for the given contract, or stops it when null
+  const subscribeProposal = useCallback((params: ProposalRequest | null) => {
+    proposalRef.current = params;
+    setProposal(null);
+    setProposalError(null);
+
+    send(params ? { type: 'subscribe', channel: 'proposal', params } : { type: 'unsubscribe', channel: 'proposal' });
+  }, [send]);
+
+  // Streams the current candle for a chart series, or stops it when null
+  const subscribeCandles = useCallback((params: CandleStreamRequest | null) => {
+    candleStreamRef.current = params;
+
+    send(params ? { type: 'subscribe', channel: 'candles', params } : { type: 'unsubscribe', channel: 'candles' });
+  }, [send]);
 
   return {
     markets,
     selectedMarket,
     setSelectedMarket,
     isConnected,
+    proposal,
+    proposalError,
+    subscribeProposal,
+    subscribeCandles,
+    watchSymbols,
     websocket: wsRef.current,
   };
 }
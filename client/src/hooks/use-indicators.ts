@@ -0,0 +1,52 @@
+import { useMemo, useRef } from "react";
+import { type Candle } from "@shared/schema";
+import { IndicatorSeries, type IndicatorOutput, type Study } from "@shared/indicators";
+
+export interface StudyValues {
+  study: Study;
+  values: (IndicatorOutput | null)[]; // Aligned with the candles passed in
+}
+
+// Index in candles of the series' latest candle, when the candles only extend it
+function continuationIndex(series: IndicatorSeries, candles: Candle[]): number {
+  const lastEpoch = series.epochs[series.epochs.length - 1];
+  for (let index = candles.length - 1; index >= Math.max(0, candles.length - 2); index--) {
+    if (candles[index].epoch === lastEpoch) return index;
+  }
+  return -1;
+}
+
+/**
+ * Keeps each study's series across renders so a live candle update or a newly
+ * opened candle costs one indicator step. Anything else rebuilds the series.
+ * seriesKey identifies the candle series (symbol and granularity).
+ */
+export function useIndicators(seriesKey: string, candles: Candle[], studies: Study[]): StudyValues[] {
+  const seriesRef = useRef({ key: seriesKey, byId: new Map<string, IndicatorSeries>() });
+
+  return useMemo(() => {
+    if (seriesRef.current.key !== seriesKey) {
+      seriesRef.current = { key: seriesKey, byId: new Map() };
+    }
+    const seriesById = seriesRef.current.byId;
+    const active = new Set(studies.map((study) => study.id));
+    Array.from(seriesById.keys()).forEach((id) => {
+      if (!active.has(id)) seriesById.delete(id);
+    });
+
+    return studies.map((study) => {
+      let series = seriesById.get(study.id);
+      const from = series ? continuationIndex(series, candles) : -1;
+
+      if (!series || from === -1) {
+        series = new IndicatorSeries(study);
+        seriesById.set(study.id, series);
+        candles.forEach((candle) => series!.update(candle));
+      } else {
+        candles.slice(from).forEach((candle) => series!.update(candle));
+      }
+
+      return { study, values: candles.length ? series.values.slice(-candles.length) : [] };
+    });
+  }, [seriesKey, candles, studies]);
+}
@@ -2,39 +2,71 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import type { BookEntry, ConnectionState } from "@shared/schema";
 
 interface Client {
-  userId: number;
+  userId: string;
   username: string;
   balance: string;
   connected: boolean;
   derivAccountId: string;
 }
 
+const connectionStateStyles: Record<ConnectionState, { label: string; className: string }> = {
+  connecting: { label: "Connecting", className: "text-[hsl(var(--warning-amber))]" },
+  authorized: { label: "Connected", className: "text-[hsl(var(--profit-green))]" },
+  "failed-auth": { label: "Token rejected", className: "text-[hsl(var(--loss-red))]" },
+  reconnecting: { label: "Reconnecting", className: "text-[hsl(var(--warning-amber))]" },
+  stopped: { label: "Disconnected", className: "text-[hsl(var(--loss-red))]" },
+};
+
 export default function ClientManagementPage() {
-  const [newClient, setNewClient] = useState({
-    userId: '',
-    username: '',
-    derivAccountId: '',
-    apiToken: ''
-  });
+  const [clientUserId, setClientUserId] = useState('');
+  const [tokenLink, setTokenLink] = useState<{ url: string; expiresAt: string } | null>(null);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canManage = can("clients:manage");
 
   const { data: connectedClients } = useQuery({
     queryKey: ['/api/clients/connected'],
     refetchInterval: 5000
   });
 
+  // Admins see every client, traders only their assigned book
+  const { data: book } = useQuery<BookEntry[]>({
+    queryKey: ['/api/clients/book'],
+    refetchInterval: 5000
+  });
+
+  // Clients redeem the link themselves, so their Deriv token never passes through this page
+  const createLinkMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await apiRequest("POST", `/api/clients/${userId}/token-link`, {});
+      return res.json() as Promise<{ url: string; expiresAt: string }>;
+    },
+    onSuccess: (link) => {
+      setTokenLink({ url: `${window.location.origin}${link.url}`, expiresAt: link.expiresAt });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Link Failed",
+        description: error.message || "Failed to create link",
+        variant: "destructive",
+      });
+    },
+  });
+
   const connectClientMutation = useMutation({
-    mutationFn: async (clientData: any) => {
-      return apiRequest("POST", "/api/clients/connect", clientData);
+    mutationFn: async (userId: string) => {
+      return apiRequest("POST", "/api/clients/connect", { userId });
     },
     onSuccess: () => {
       toast({
@@ -42,7 +74,7 @@ export default function ClientManagementPage() {
         description: "Client has been successfully connected to Deriv API",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/clients/connected'] });
-      setNewClient({ userId: '', username: '', derivAccountId: '', apiToken: '' });
+      queryClient.invalidateQueries({ queryKey: ['/api/clients/book'] });
     },
     onError: (error: any) => {
       toast({
@@ -54,7 +86,7 @@ export default function ClientManagementPage() {
   });
 
   const disconnectClientMutation = useMutation({
-    mutationFn: async (clientId: number) => {
+    mutationFn: async (clientId: string) => {
       return apiRequest("POST", `/api/clients/${clientId}/disconnect`, {});
     },
     onSuccess: () => {
@@ -63,6 +95,7 @@ export default function ClientManagementPage() {
         description: "Client has been disconnected from Deriv API",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/clients/connected'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/clients/book'] });
     },
     onError: (error: any) => {
       toast({
@@ -73,24 +106,25 @@ export default function ClientManagementPage() {
     },
   });
 
-  const handleConnectClient = () => {
-    if (!newClient.userId || !newClient.apiToken) {
+  const handleCreateLink = () => {
+    if (!clientUserId.trim()) {
       toast({
         title: "Missing Information",
-        description: "Please provide User ID and API Token",
+        description: "Please provide the client's User ID",
         variant: "destructive",
       });
       return;
     }
 
-    connectClientMutation.mutate({
-      userId: parseInt(newClient.userId),
-      derivAccountId: newClient.derivAccountId,
-      apiToken: newClient.apiToken
-    });
+    setTokenLink(null);
+    createLinkMutation.mutate(clientUserId.trim());
+  };
+
+  const handleConnectClient = (clientId: string) => {
+    connectClientMutation.mutate(clientId);
   };
 
-  const handleDisconnectClient = (clientId: number) => {
+  const handleDisconnectClient = (clientId: string) => {
     disconnectClientMutation.mutate(clientId);
   };
 
@@ -104,62 +138,47 @@ export default function ClientManagementPage() {
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
           {/* Connect New Client */}
-          <Card className="bg-[hsl(var(--trading-slate))] border-[hsl(var(--trading-gray))]">
-            <CardHeader>
-              <CardTitle className="text-white">Connect New Client</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div>
-                <Label className="text-white">User ID</Label>
-                <Input
-                  type="number"
-                  value={newClient.userId}
-                  onChange={(e) => setNewClient(prev => ({ ...prev, userId: e.target.value }))}
-                  className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
-                  placeholder="Enter user ID"
-                />
-              </div>
-              
-              <div>
-                <Label className="text-white">Username (Optional)</Label>
-                <Input
-                  value={newClient.username}
-                  onChange={(e) => setNewClient(prev => ({ ...prev, username: e.target.value }))}
-                  className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
-                  placeholder="Enter username"
-                />
-              </div>
-
-              <div>
-                <Label className="text-white">Deriv Account ID (Optional)</Label>
-                <Input
-                  value={newClient.derivAccountId}
-                  onChange={(e) => setNewClient(prev => ({ ...prev, derivAccountId: e.target.value }))}
-                  className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
-                  placeholder="Enter Deriv account ID"
-                />
-              </div>
+          {canManage && (
+            <Card className="bg-[hsl(var(--trading-slate))] border-[hsl(var(--trading-gray))]">
+              <CardHeader>
+                <CardTitle className="text-white">Link Client Account</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label className="text-white">User ID</Label>
+                  <Input
+                    value={clientUserId}
+                    onChange={(e) => setClientUserId(e.target.value)}
+                    className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
+                    placeholder="Enter user ID"
+                  />
+                </div>
 
-              <div>
-                <Label className="text-white">API Token *</Label>
-                <Input
-                  type="password"
-                  value={newClient.apiToken}
-                  onChange={(e) => setNewClient(prev => ({ ...prev, apiToken: e.target.value }))}
-                  className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
-                  placeholder="Enter client's Deriv API token"
-                />
-              </div>
+                <Button
+                  onClick={handleCreateLink}
+                  disabled={createLinkMutation.isPending}
+                  className="w-full bg-[hsl(var(--profit-green))] hover:bg-green-600 text-white"
+                >
+                  {createLinkMutation.isPending ? "Creating..." : "Create Link"}
+                </Button>
 
-              <Button
-                onClick={handleConnectClient}
-                disabled={connectClientMutation.isPending}
-                className="w-full bg-[hsl(var(--profit-green))] hover:bg-green-600 text-white"
-              >
-                {connectClientMutation.isPending ? "Connecting..." : "Connect Client"}
-              </Button>
-            </CardContent>
-          </Card>
+                {tokenLink && (
+                  <div>
+                    <Label className="text-white">One-time link</Label>
+                    <Input
+                      readOnly
+                      value={tokenLink.url}
+                      onFocus={(e) => e.target.select()}
+                      className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
+                    />
+                    <p className="text-xs text-gray-400 mt-1">
+                      Send this to the client to store their Deriv API token. Expires {new Date(tokenLink.expiresAt).toLocaleString()}.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
 
           {/* Connected Clients Overview */}
           <Card className="bg-[hsl(var(--trading-slate))] border-[hsl(var(--trading-gray))]">
@@ -178,7 +197,7 @@ export default function ClientManagementPage() {
                 <div className="mt-4 space-y-2">
                   <p className="text-sm text-gray-400">Client IDs:</p>
                   <div className="flex flex-wrap gap-2">
-                    {connectedClients.clients.map((clientId: number) => (
+                    {connectedClients.clients.map((clientId: string) => (
                       <Badge key={clientId} variant="secondary" className="bg-[hsl(var(--trading-gray))] text-white">
                         {clientId}
                       </Badge>
@@ -193,22 +212,27 @@ export default function ClientManagementPage() {
         {/* Client Management Table */}
         <Card className="bg-[hsl(var(--trading-slate))] border-[hsl(var(--trading-gray))]">
           <CardHeader>
-            <CardTitle className="text-white">Client Management</CardTitle>
+            <CardTitle className="text-white">{canManage ? "Client Management" : "My Clients"}</CardTitle>
           </CardHeader>
           <CardContent>
-            {!connectedClients?.clients?.length ? (
+            {!book?.length ? (
               <div className="text-center py-8 text-gray-400">
                 <i className="fas fa-users text-3xl mb-4 block"></i>
-                <p>No clients connected</p>
-                <p className="text-sm">Connect clients using their Deriv API tokens to start managing their funds</p>
+                <p>No clients {canManage ? "registered" : "assigned to you"}</p>
+                <p className="text-sm">
+                  {canManage
+                    ? "Connect clients using their Deriv API tokens to start managing their funds"
+                    : "Ask an administrator to assign clients to your book"}
+                </p>
               </div>
             ) : (
               <div className="space-y-4">
-                {connectedClients.clients.map((clientId: number) => (
+                {book.map((entry) => (
                   <ClientCard 
-                    key={clientId} 
-                    clientId={clientId} 
-                    onDisconnect={handleDisconnectClient}
+                    key={entry.client.id} 
+                    entry={entry} 
+                    onConnect={canManage && entry.client.hasApiToken && ["stopped", "failed-auth"].includes(entry.connectionState) ? handleConnectClient : undefined}
+                    onDisconnect={canManage && entry.connectionState !== "stopped" ? handleDisconnectClient : undefined}
                   />
                 ))}
               </div>
@@ -220,7 +244,14 @@ export default function ClientManagementPage() {
   );
 }
 
-function ClientCard({ clientId, onDisconnect }: { clientId: number; onDisconnect: (id: number) => void }) {
+function ClientCard({ entry, onConnect, onDisconnect }: {
+  entry: BookEntry;
+  onConnect?: (id: string) => void;
+  onDisconnect?: (id: string) => void;
+}) {
+  const clientId = entry.client.id;
+  const clientName = entry.client.username || entry.client.email || `Client ${clientId}`;
+
   const { data: clientBalance } = useQuery({
     queryKey: [`/api/clients/${clientId}/balance`],
     refetchInterval: 10000
@@ -243,24 +274,49 @@ function ClientCard({ clientId, onDisconnect }: { clientId: number; onDisconnect
             <i className="fas fa-user text-white"></i>
           </div>
           <div>
-            <h3 className="font-semibold text-white">Client {clientId}</h3>
+            <div className="flex items-center gap-2">
+              <h3 className="font-semibold text-white">{clientName}</h3>
+              <Badge variant="secondary" className="bg-[hsl(var(--trading-slate))] text-white">
+                {entry.permission === "trade" ? "Trade" : "View only"}
+              </Badge>
+              {!entry.client.hasApiToken && (
+                <Badge variant="secondary" className="bg-[hsl(var(--trading-slate))] text-gray-400">
+                  No token linked
+                </Badge>
+              )}
+              {entry.maxStake && (
+                <Badge variant="secondary" className="bg-[hsl(var(--trading-slate))] text-white">
+                  Max stake ${entry.maxStake}
+                </Badge>
+              )}
+            </div>
             <p className="text-sm text-gray-400">
-              Status: {clientBalance?.connected ? 
-                <span className="text-[hsl(var(--profit-green))]">Connected</span> : 
-                <span className="text-[hsl(var(--loss-red))]">Disconnected</span>
-              }
+              Status: <span className={connectionStateStyles[entry.connectionState].className}>
+                {connectionStateStyles[entry.connectionState].label}
+              </span>
             </p>
           </div>
         </div>
         
-        <Button
-          onClick={() => onDisconnect(clientId)}
-          variant="destructive"
-          size="sm"
-          className="bg-[hsl(var(--loss-red))] hover:bg-red-600"
-        >
-          Disconnect
-        </Button>
+        {onConnect && (
+          <Button
+            onClick={() => onConnect(clientId)}
+            size="sm"
+            className="bg-[hsl(var(--profit-green))] hover:bg-green-600 text-white"
+          >
+            Connect
+          </Button>
+        )}
+        {onDisconnect && (
+          <Button
+            onClick={() => onDisconnect(clientId)}
+            variant="destructive"
+            size="sm"
+            className="bg-[hsl(var(--loss-red))] hover:bg-red-600"
+          >
+            Disconnect
+          </Button>
+        )}
       </div>
 
       <div className="grid grid-cols-3 gap-4 text-sm">
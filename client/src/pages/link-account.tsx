@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+// Where a client redeems the one-time link an admin sent them
+export default function LinkAccountPage() {
+  const { linkToken } = useParams<{ linkToken: string }>();
+  const { toast } = useToast();
+  const [apiToken, setApiToken] = useState('');
+
+  const linkMutation = useMutation({
+    mutationFn: async (token: string) => {
+      const res = await apiRequest("POST", `/api/token-links/${linkToken}`, { apiToken: token });
+      return res.json() as Promise<{ message: string; connected: boolean }>;
+    },
+    onSuccess: () => {
+      setApiToken('');
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Link Failed",
+        description: error.message || "Failed to link your Deriv account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!apiToken.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter your Deriv API token",
+        variant: "destructive",
+      });
+      return;
+    }
+    linkMutation.mutate(apiToken.trim());
+  };
+
+  return (
+    <div className="min-h-screen bg-[hsl(var(--trading-dark))] flex items-center justify-center p-6">
+      <Card className="w-full max-w-md bg-[hsl(var(--trading-slate))] border-[hsl(var(--trading-gray))]">
+        <CardHeader>
+          <CardTitle className="text-white">Link Your Deriv Account</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {linkMutation.isSuccess ? (
+            <div className="text-center py-4 text-white">
+              <i className="fas fa-check-circle text-3xl text-[hsl(var(--profit-green))] mb-4 block"></i>
+              <p>Your Deriv account is linked.</p>
+              <p className="text-sm text-gray-400 mt-2">You can close this page.</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <p className="text-sm text-gray-400">
+                Paste an API token created in your Deriv account settings. It is stored encrypted
+                and this link stops working once used.
+              </p>
+              <div>
+                <Label htmlFor="api-token" className="text-white">Deriv API Token</Label>
+                <Input
+                  id="api-token"
+                  type="password"
+                  value={apiToken}
+                  onChange={(e) => setApiToken(e.target.value)}
+                  className="bg-[hsl(var(--trading-gray))] border-[hsl(var(--trading-gray))] text-white"
+                  placeholder="Enter your Deriv API token"
+                  required
+                />
+              </div>
+              <Button
+                type="submit"
+                disabled={linkMutation.isPending}
+                className="w-full bg-[hsl(var(--profit-green))] hover:bg-green-600 text-white"
+              >
+                {linkMutation.isPending ? "Linking..." : "Link Account"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
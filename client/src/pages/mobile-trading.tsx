@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { useDerivAuth } from "@/hooks/use-deriv-auth";
 import { Button } from "@/components/ui/button";
@@ -159,14 +160,25 @@ export default function MobileTradingPage() {
             <h1 className="text-2xl font-bold">ChartBotAixTrade</h1>
             <p className="text-blue-100 text-sm mt-1">Binary Options Trading</p>
           </div>
-          <Button 
-            onClick={logout}
-            variant="outline"
-            size="sm"
-            className="text-white border-white/30 hover:bg-white/10"
-          >
-            Logout
-          </Button>
+          <div className="flex gap-2">
+            <Link href="/trading">
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-white border-white/30 hover:bg-white/10"
+              >
+                Charts
+              </Button>
+            </Link>
+            <Button 
+              onClick={logout}
+              variant="outline"
+              size="sm"
+              className="text-white border-white/30 hover:bg-white/10"
+            >
+              Logout
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -1,20 +1,30 @@
 import { useQuery } from "@tanstack/react-query";
 import { useDerivAPI } from "@/hooks/use-deriv-api";
+import { useAuth } from "@/hooks/use-auth";
 import Sidebar from "@/components/trading/Sidebar";
 import Header from "@/components/trading/Header";
 import TradingPanel from "@/components/trading/TradingPanel";
 import Chart from "@/components/trading/Chart";
 import PositionsTable from "@/components/trading/PositionsTable";
+import type { Trade } from "@shared/schema";
 
 export default function TradingPage() {
-  const { markets, isConnected, selectedMarket, setSelectedMarket } = useDerivAPI();
+  const {
+    markets,
+    isConnected,
+    selectedMarket,
+    setSelectedMarket,
+    proposal,
+    proposalError,
+    subscribeProposal,
+    subscribeCandles,
+    watchSymbols,
+  } = useDerivAPI();
   
-  const { data: user } = useQuery({
-    queryKey: ['/api/user/demo'],
-  });
+  const { user } = useAuth();
 
-  const { data: positions } = useQuery({
-    queryKey: ['/api/positions/user/1'],
+  const { data: positions } = useQuery<Trade[]>({
+    queryKey: ['/api/positions'],
   });
 
   return (
@@ -23,6 +33,7 @@ export default function TradingPage() {
         markets={markets || []}
         selectedMarket={selectedMarket}
         onSelectMarket={setSelectedMarket}
+        onVisibleSymbolsChange={watchSymbols}
       />
       
       <div className="flex-1 flex flex-col overflow-hidden">
@@ -33,12 +44,16 @@ export default function TradingPage() {
         
         <div className="flex-1 flex overflow-hidden">
           <div className="flex-1 flex flex-col">
-            <Chart market={selectedMarket} />
+            <Chart market={selectedMarket} onCandleStreamChange={subscribeCandles} />
           </div>
           
           <TradingPanel 
             market={selectedMarket}
             userBalance={user?.balance || "0"}
+            isConnected={isConnected}
+            proposal={proposal}
+            proposalError={proposalError}
+            onProposalChange={subscribeProposal}
           />
         </div>
 
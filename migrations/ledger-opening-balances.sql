@@ -0,0 +1,66 @@
+-- Moves each user's balance out of users.balance and into the double-entry
+-- ledger that replaces it. Run it before `npm run db:push`, which drops the
+-- column:
+--
+--   npm run db:ledger-backfill && npm run db:push
+--
+-- The ledger tables are created here as shared/schema.ts defines them, so the
+-- push is left with only the column to drop. Each non-zero balance becomes an
+-- opening transaction: a deposit from external:deposits, or an adjustment
+-- against house:adjustments if it was negative. Users who already have ledger
+-- transactions are skipped, so running it again changes nothing.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "ledger_transactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"kind" text NOT NULL,
+	"trade_id" integer,
+	"description" text,
+	"created_by" varchar,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "ledger_transactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action,
+	CONSTRAINT "ledger_transactions_trade_id_trades_id_fk" FOREIGN KEY ("trade_id") REFERENCES "public"."trades"("id") ON DELETE no action ON UPDATE no action,
+	CONSTRAINT "ledger_transactions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action
+);
+
+CREATE TABLE IF NOT EXISTS "ledger_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"transaction_id" integer NOT NULL,
+	"account" text NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	CONSTRAINT "ledger_entries_transaction_id_ledger_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."ledger_transactions"("id") ON DELETE no action ON UPDATE no action
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_ledger_entries_account" ON "ledger_entries" USING btree ("account");
+
+DO $$
+BEGIN
+  -- Nothing to carry over once the column is gone
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'users' AND column_name = 'balance'
+  ) THEN
+    RETURN;
+  END IF;
+
+  WITH opening AS (
+    INSERT INTO "ledger_transactions" ("user_id", "kind", "description")
+    SELECT "id", CASE WHEN "balance" > 0 THEN 'deposit' ELSE 'adjustment' END, 'Opening balance'
+    FROM "users"
+    WHERE "balance" <> 0
+      AND NOT EXISTS (SELECT 1 FROM "ledger_transactions" WHERE "ledger_transactions"."user_id" = "users"."id")
+    RETURNING "id", "user_id", "kind"
+  )
+  INSERT INTO "ledger_entries" ("transaction_id", "account", "amount")
+  SELECT opening."id", legs."account", legs."amount"
+  FROM opening
+  JOIN "users" ON "users"."id" = opening."user_id"
+  CROSS JOIN LATERAL (VALUES
+    ('wallet:' || opening."user_id", "users"."balance"),
+    (CASE WHEN opening."kind" = 'deposit' THEN 'external:deposits' ELSE 'house:adjustments' END, -"users"."balance")
+  ) AS legs("account", "amount");
+END $$;
+
+COMMIT;
@@ -0,0 +1,208 @@
+import type { Express, Request, RequestHandler, Response } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { isPaperTrading, PAPER_STARTING_BALANCE } from "./paper-trading";
+import { ledger } from "./ledger";
+import { storage, MemStorage } from "./storage";
+import { loginSchema, registerSchema, type PublicUser, type User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_TTL = 7 * 24 * 60 * 60 * 1000; // One week
+
+let sessionMiddleware: RequestHandler | undefined;
+
+// Stored as <hash>.<salt>, both hex encoded
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Never send password hashes or Deriv tokens to the browser
+export async function toPublicUser(user: SelectUser): Promise<PublicUser> {
+  const { password, apiToken, ...publicUser } = user;
+  return { ...publicUser, hasApiToken: !!apiToken, balance: await ledger.getBalance(user.id) };
+}
+
+function createSessionStore() {
+  if (storage instanceof MemStorage) {
+    const MemoryStore = createMemoryStore(session);
+    return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  }
+
+  const PgStore = connectPg(session);
+  return new PgStore({
+    conString: process.env.DATABASE_URL,
+    tableName: "sessions",
+    createTableIfMissing: false,
+    ttl: SESSION_TTL / 1000,
+  });
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET is not set; sessions will not survive a restart");
+  return randomBytes(32).toString("hex");
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ message: "Authentication required" });
+};
+
+// The signed-in user behind a request Express never saw, such as a WebSocket upgrade
+export function getSessionUser(req: IncomingMessage): Promise<SelectUser | null> {
+  return new Promise((resolve) => {
+    if (!sessionMiddleware) return resolve(null);
+
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, async () => {
+      try {
+        const userId = (request.session as { passport?: { user?: unknown } } | undefined)?.passport?.user;
+        const user = typeof userId === "string" ? await storage.getUser(userId) : undefined;
+        resolve(user?.isActive ? user : null);
+      } catch (error) {
+        resolve(null);
+      }
+    });
+  });
+}
+
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  sessionMiddleware = session({
+    secret: getSessionSecret(),
+    store: createSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL,
+    },
+  });
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user?.password || !user.isActive || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deactivated or deleted user loses their session
+      done(null, user?.isActive ? user : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req, res) => {
+    try {
+      const { username, email, password, firstName, lastName } = registerSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: "Email is already registered" });
+      }
+
+      const user = await storage.upsertUser({
+        id: randomUUID(),
+        username,
+        email,
+        password: await hashPassword(password),
+        firstName: firstName || null,
+        lastName: lastName || null,
+      });
+      // Live wallets start empty until a deposit into the Deriv account is recorded
+      if (isPaperTrading()) {
+        await ledger.deposit(user.id, PAPER_STARTING_BALANCE, "Paper trading starting balance");
+      }
+
+      res.status(201).json(await toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid registration data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to register" });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid login data", errors: parsed.error.errors });
+    }
+
+    passport.authenticate("local", (error: unknown, user: SelectUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        toPublicUser(user).then((publicUser) => res.json(publicUser), next);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((logoutError) => {
+      if (logoutError) return next(logoutError);
+      req.session.destroy((destroyError) => {
+        if (destroyError) return next(destroyError);
+        res.clearCookie("connect.sid");
+        res.json({ message: "Logged out" });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, async (req, res, next) => {
+    try {
+      res.json(await toPublicUser(req.user!));
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,143 @@
+import { EventEmitter } from 'events';
+import DerivAPI from './deriv-api';
+import type { Candle } from '@shared/schema';
+import type { DerivResponse, OhlcResponse } from './deriv-messages';
+
+const CANDLES_CACHE_TTL = 60 * 1000;
+const MAX_CACHED_CANDLES = 5000;
+const STREAM_HISTORY = 1000;
+
+export interface CandleUpdate {
+  symbol: string;
+  granularity: number;
+  candle: Candle;
+}
+
+interface CandleSeries {
+  candles: Candle[];
+  fetchedAt: number;
+  subscribers: number;
+  subscriptionId?: string;
+}
+
+function seriesKey(symbol: string, granularity: number) {
+  return `${symbol}:${granularity}`;
+}
+
+/**
+ * Serves candle history from ticks_history with a short-lived cache and keeps
+ * streamed series current from Deriv's ohlc updates. Emits 'candle' whenever
+ * the latest candle of a streamed series changes.
+ */
+export class CandleFeed extends EventEmitter {
+  private series = new Map<string, CandleSeries>();
+
+  constructor(private derivAPI: DerivAPI) {
+    super();
+    derivAPI.on('ohlc', (response: OhlcResponse) => this.handleOhlc(response));
+    derivAPI.on('stream_restored', (streamId: string, response: DerivResponse) => this.handleRestored(streamId, response));
+  }
+
+  async getCandles(symbol: string, granularity: number, count: number): Promise<Candle[]> {
+    const series = this.series.get(seriesKey(symbol, granularity));
+    // Streamed series are kept current, so only polled ones expire
+    const fresh = series && (series.subscriptionId || series.fetchedAt + CANDLES_CACHE_TTL > Date.now());
+    if (series && fresh && series.candles.length >= count) {
+      return series.candles.slice(-count);
+    }
+
+    const candles = await this.derivAPI.getCandles(symbol, granularity, count);
+    const updated = this.getSeries(symbol, granularity);
+    if (!updated.subscriptionId || candles.length >= updated.candles.length) {
+      updated.candles = candles;
+      updated.fetchedAt = Date.now();
+    }
+    return candles;
+  }
+
+  async subscribe(symbol: string, granularity: number): Promise<void> {
+    const series = this.getSeries(symbol, granularity);
+    series.subscribers++;
+    if (series.subscribers > 1) return;
+
+    try {
+      const response = await this.derivAPI.subscribeToCandles(symbol, granularity, STREAM_HISTORY);
+      const subscriptionId = response.subscription?.id;
+
+      // Everyone left while the request was in flight, or another request won the race
+      if (series.subscribers === 0 || series.subscriptionId) {
+        if (subscriptionId) await this.derivAPI.forget(subscriptionId).catch(() => {});
+        return;
+      }
+
+      series.subscriptionId = subscriptionId;
+      series.candles = response.candles;
+      series.fetchedAt = Date.now();
+    } catch (error) {
+      series.subscribers = Math.max(0, series.subscribers - 1);
+      throw error;
+    }
+  }
+
+  async unsubscribe(symbol: string, granularity: number): Promise<void> {
+    const series = this.series.get(seriesKey(symbol, granularity));
+    if (!series || series.subscribers === 0) return;
+
+    series.subscribers--;
+    if (series.subscribers === 0 && series.subscriptionId) {
+      const subscriptionId = series.subscriptionId;
+      series.subscriptionId = undefined;
+      await this.derivAPI.forget(subscriptionId).catch(() => {});
+    }
+  }
+
+  private getSeries(symbol: string, granularity: number): CandleSeries {
+    const key = seriesKey(symbol, granularity);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { candles: [], fetchedAt: 0, subscribers: 0 };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  // A reconnect re-sends the subscription, whose history covers candles missed while down
+  private handleRestored(streamId: string, response: DerivResponse) {
+    if (response.msg_type !== 'candles') return;
+
+    const series = Array.from(this.series.values()).find((entry) => entry.subscriptionId === streamId);
+    if (!series || !response.candles.length) return;
+
+    series.candles = response.candles;
+    series.fetchedAt = Date.now();
+  }
+
+  private handleOhlc(response: OhlcResponse) {
+    const { ohlc } = response;
+    const series = this.series.get(seriesKey(ohlc.symbol, ohlc.granularity));
+    if (!series) return;
+
+    const candle: Candle = {
+      epoch: ohlc.open_time,
+      open: ohlc.open,
+      high: ohlc.high,
+      low: ohlc.low,
+      close: ohlc.close,
+    };
+
+    const last = series.candles[series.candles.length - 1];
+    if (last && last.epoch === candle.epoch) {
+      series.candles[series.candles.length - 1] = candle;
+    } else if (!last || candle.epoch > last.epoch) {
+      series.candles.push(candle);
+      if (series.candles.length > MAX_CACHED_CANDLES) {
+        series.candles.splice(0, series.candles.length - MAX_CACHED_CANDLES);
+      }
+    } else {
+      return;
+    }
+
+    const update: CandleUpdate = { symbol: ohlc.symbol, granularity: ohlc.granularity, candle };
+    this.emit('candle', update);
+  }
+}
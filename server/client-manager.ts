@@ -1,170 +1,276 @@
-import DerivAPI from './deriv-api';
+import DerivAPI, { DerivAPIError, toContractOptions } from './deriv-api';
+import type { AuthorizeResponse } from './deriv-messages';
 import { storage } from './storage';
-import type { User, Trade } from '@shared/schema';
-
-export interface ClientAccount {
-  userId: number;
-  derivAccountId: string;
-  apiToken: string;
-  balance: string;
-  currency: string;
-  isActive: boolean;
-}
+import { ledger } from './ledger';
+import { contractTracker } from './contract-tracker';
+import { expiryScheduler } from './expiry-scheduler';
+import { tokenVault } from './token-vault';
+import type { MarketDataHub } from './market-data-hub';
+import type { ClientConnectionStatus, ConnectionState, PlaceTradeRequest, Trade } from '@shared/schema';
+
+// Deriv's answers to a token that will never authorize; anything else is retried
+const REJECTED_TOKEN_CODES = new Set(['InvalidToken', 'AuthorizationRequired']);
 
-export interface TradeRequest {
-  clientId: number;
-  symbol: string;
-  tradeType: 'CALL' | 'PUT';
-  amount: number;
-  duration: number;
-  durationType: 'm' | 'h' | 'd';
-  contractType: string;
+// A trade validated by placeTradeSchema, placed on its owner's (the client's) account
+export type ClientTradeRequest = Omit<PlaceTradeRequest, 'proposalId' | 'maxPrice'>;
+
+interface ManagedClient {
+  api: DerivAPI;
+  state: ConnectionState;
+  symbols: Set<string>;
+  error: string | null;
+  since: Date;
 }
 
+/**
+ * Holds one Deriv socket per managed client. Which clients should be connected,
+ * and to which symbols, is persisted so restoreConnections() can bring them
+ * back after a restart. Market data is public, so client tick subscriptions
+ * go through the shared MarketDataHub rather than each client's socket.
+ * DerivAPI retries dropped sockets indefinitely. Each socket moves through
+ * these states:
+ *
+ *   connecting -> authorized <-> reconnecting
+ *   connecting -> reconnecting (authorization timed out or failed in transit)
+ *   connecting -> failed-auth (token rejected; not retried)
+ *   any -> stopped (disconnected on purpose)
+ */
 export class ClientManager {
-  private clientAPIs = new Map<number, DerivAPI>();
-  private activeConnections = new Map<number, boolean>();
+  private clients = new Map<string, ManagedClient>();
+  private marketData?: MarketDataHub;
+
+  useMarketData(hub: MarketDataHub) {
+    this.marketData = hub;
+  }
+
+  async restoreConnections(): Promise<void> {
+    const connections = await storage.getClientConnections();
+    for (const connection of connections) {
+      const connected = await this.connectClient(connection.userId, connection.symbols);
+      if (!connected) {
+        await storage.deleteClientConnection(connection.userId);
+      }
+    }
+    if (connections.length) {
+      console.log(`Restoring ${connections.length} client connection(s)`);
+    }
+  }
 
-  async connectClient(clientAccount: ClientAccount): Promise<boolean> {
+  // Connects with the client's stored Deriv token, decrypted only for the socket
+  async connectClient(userId: string, symbols: string[] = this.getConnectionStatus(userId).symbols): Promise<boolean> {
     try {
+      const user = await storage.getUser(userId);
+      if (!user?.apiToken) {
+        console.error(`Client ${userId} has no linked Deriv API token`);
+        return false;
+      }
+
+      const previous = this.clients.get(userId);
+      if (previous) {
+        previous.state = 'stopped';
+        previous.api.disconnect();
+      }
+
+      const apiToken = tokenVault.decrypt(user.apiToken);
+      // Tokens stored in plaintext, or under a retired master key, are rewritten on first use
+      if (tokenVault.needsRotation(user.apiToken)) {
+        await storage.updateUserApiToken(userId, tokenVault.rotate(user.apiToken));
+      }
+
       const derivAPI = new DerivAPI({
         appId: '76613',
-        apiToken: clientAccount.apiToken
+        apiToken
       });
+      const client: ManagedClient = {
+        api: derivAPI,
+        state: 'connecting',
+        symbols: new Set(symbols),
+        error: null,
+        since: new Date()
+      };
+      this.clients.set(userId, client);
+      await storage.saveClientConnection({ userId, symbols });
 
-      await derivAPI.connect();
-
-      // Set up event handlers for this client
       derivAPI.on('connected', () => {
-        console.log(`Client ${clientAccount.userId} connected to Deriv API`);
-        this.activeConnections.set(clientAccount.userId, true);
+        console.log(`Client ${userId} connected to Deriv API`);
+        this.setState(client, 'connecting');
       });
 
-      derivAPI.on('disconnected', () => {
-        console.log(`Client ${clientAccount.userId} disconnected from Deriv API`);
-        this.activeConnections.set(clientAccount.userId, false);
+      derivAPI.on('authorized', (authData: AuthorizeResponse) => {
+        console.log(`Client ${userId} authorized as ${authData.authorize.loginid}`);
+        this.setState(client, 'authorized');
+        this.updateClientBalance(userId, authData).catch((error) => {
+          console.error(`Failed to sync balance for client ${userId}:`, error);
+        });
       });
 
-      derivAPI.on('authorized', (authData) => {
-        console.log(`Client ${clientAccount.userId} authorized:`, authData);
-        this.updateClientBalance(clientAccount.userId, authData);
+      derivAPI.on('authorization_failed', (error: Error) => {
+        if (error instanceof DerivAPIError && REJECTED_TOKEN_CODES.has(error.code)) {
+          this.setState(client, 'failed-auth', error.message);
+          derivAPI.disconnect();
+          return;
+        }
+        // DerivAPI closes the socket and reconnects with backoff
+        this.setState(client, 'reconnecting', error.message);
       });
 
-      derivAPI.on('trade_result', (tradeResult) => {
-        this.handleTradeResult(clientAccount.userId, tradeResult);
+      derivAPI.on('disconnected', () => {
+        console.log(`Client ${userId} disconnected from Deriv API`);
+        if (client.state !== 'failed-auth' && client.state !== 'stopped') {
+          this.setState(client, 'reconnecting');
+        }
       });
 
-      this.clientAPIs.set(clientAccount.userId, derivAPI);
+      derivAPI.on('error', (error: Error) => {
+        client.error = error.message;
+      });
+
+      await derivAPI.connect();
+      client.symbols.forEach((symbol) => {
+        this.marketData?.subscribe(this.consumerId(userId), symbol).catch((error) => {
+          console.error(`Failed to subscribe client ${userId} to ${symbol}:`, error.message);
+        });
+      });
       return true;
     } catch (error) {
-      console.error(`Failed to connect client ${clientAccount.userId}:`, error);
+      console.error(`Failed to connect client ${userId}:`, error);
       return false;
     }
   }
 
-  async disconnectClient(clientId: number): Promise<void> {
-    const derivAPI = this.clientAPIs.get(clientId);
-    if (derivAPI) {
-      derivAPI.disconnect();
-      this.clientAPIs.delete(clientId);
-      this.activeConnections.delete(clientId);
+  // Stops the socket and forgets the intent, so the client stays disconnected after a restart
+  async disconnectClient(clientId: string): Promise<void> {
+    const client = this.clients.get(clientId);
+    if (client) {
+      client.state = 'stopped';
+      client.api.disconnect();
+      this.clients.delete(clientId);
+    }
+    await this.marketData?.unsubscribeAll(this.consumerId(clientId));
+    await storage.deleteClientConnection(clientId);
+  }
+
+  getConnectionStatus(clientId: string): ClientConnectionStatus {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return { state: 'stopped', symbols: [], error: null, since: null };
     }
+    return {
+      state: client.state,
+      symbols: Array.from(client.symbols),
+      error: client.error,
+      since: client.since
+    };
   }
 
-  async placeTradeForClient(tradeRequest: TradeRequest): Promise<any> {
-    const derivAPI = this.clientAPIs.get(tradeRequest.clientId);
+  private setState(client: ManagedClient, state: ConnectionState, error: string | null = null) {
+    if (client.state === state && !error) return;
+    client.state = state;
+    client.error = error;
+    client.since = new Date();
+  }
+
+  private consumerId(clientId: string): string {
+    return `client:${clientId}`;
+  }
+
+  async placeTradeForClient(tradeRequest: ClientTradeRequest): Promise<Trade> {
+    const clientId = tradeRequest.userId;
+    const derivAPI = this.getClientAPI(clientId);
     
-    if (!derivAPI || !this.activeConnections.get(tradeRequest.clientId)) {
+    if (!derivAPI) {
       throw new Error('Client not connected to Deriv API');
     }
 
+    const reservation = await ledger.reserveStake(clientId, tradeRequest.stake, `${tradeRequest.tradeType} on ${tradeRequest.symbol}`);
+
+    let buy;
     try {
       // Place trade through Deriv API
-      await derivAPI.placeTrade({
-        symbol: tradeRequest.symbol,
-        tradeType: tradeRequest.tradeType,
-        amount: tradeRequest.amount,
-        duration: tradeRequest.duration,
-        durationType: tradeRequest.durationType,
-        basis: 'stake'
-      });
+      buy = await derivAPI.placeTrade(toContractOptions(tradeRequest));
+    } catch (error) {
+      console.error(`Trade failed for client ${clientId}:`, error);
+      await ledger.refundStake(reservation, tradeRequest.stake);
+      throw error;
+    }
 
+    let trade: Trade;
+    try {
       // Record trade in local storage
-      const trade = await storage.createTrade({
-        userId: tradeRequest.clientId,
-        symbol: tradeRequest.symbol,
-        tradeType: tradeRequest.tradeType,
-        contractType: tradeRequest.contractType,
-        stake: tradeRequest.amount.toString(),
-        duration: tradeRequest.duration,
-        durationType: tradeRequest.durationType === 'm' ? 'minutes' : 
-                     tradeRequest.durationType === 'h' ? 'hours' : 'days',
-        status: 'open'
+      trade = await storage.createTrade({
+        ...tradeRequest,
+        status: 'open',
+        payout: buy.payout.toFixed(2),
+        derivTradeId: buy.contract_id.toString()
       });
-
-      return trade;
     } catch (error) {
-      console.error(`Trade failed for client ${tradeRequest.clientId}:`, error);
+      console.error(`Failed to record trade for client ${clientId}:`, error);
+      await contractTracker.abandon(derivAPI, buy.contract_id, reservation, tradeRequest.stake);
       throw error;
     }
+
+    await ledger.attachStake(reservation, trade.id);
+    contractTracker.track(derivAPI, trade.id, buy.contract_id);
+    expiryScheduler.schedule(trade);
+
+    console.log(`Trade placed for client ${clientId}: Contract ID ${buy.contract_id}, Payout: ${buy.payout}`);
+    return trade;
   }
 
-  async getClientBalance(clientId: number): Promise<string | null> {
-    const user = await storage.getUser(clientId);
-    return user?.balance || null;
+  getClientAPI(clientId: string): DerivAPI | undefined {
+    const client = this.clients.get(clientId);
+    return client?.state === 'authorized' ? client.api : undefined;
   }
 
-  async updateClientBalance(clientId: number, authData: any): Promise<void> {
-    if (authData.authorize && authData.authorize.balance) {
-      await storage.updateUserBalance(clientId, authData.authorize.balance.toString());
-    }
+  async getClientBalance(clientId: string): Promise<string | null> {
+    const user = await storage.getUser(clientId);
+    return user ? await ledger.getBalance(clientId) : null;
   }
 
-  private async handleTradeResult(clientId: number, tradeResult: any): Promise<void> {
-    console.log(`Trade result for client ${clientId}:`, tradeResult);
-    
-    if (tradeResult.buy) {
-      const { contract_id, payout, longcode } = tradeResult.buy;
-      
-      // Update trade record with Deriv contract ID
-      // This would need to be implemented based on your specific requirements
-      console.log(`Trade placed: Contract ID ${contract_id}, Payout: ${payout}`);
-    }
+  // Deriv holds the real money; the ledger records whatever moved there since the last sync
+  async updateClientBalance(clientId: string, authData: AuthorizeResponse): Promise<void> {
+    await ledger.syncWithDeriv(clientId, authData.authorize.balance);
   }
 
-  async getClientTrades(clientId: number): Promise<Trade[]> {
+  async getClientTrades(clientId: string): Promise<Trade[]> {
     return await storage.getTradesByUser(clientId);
   }
 
-  async getClientActivePositions(clientId: number): Promise<Trade[]> {
+  async getClientActivePositions(clientId: string): Promise<Trade[]> {
     return await storage.getOpenTradesByUser(clientId);
   }
 
-  isClientConnected(clientId: number): boolean {
-    return this.activeConnections.get(clientId) || false;
+  isClientConnected(clientId: string): boolean {
+    return this.clients.get(clientId)?.state === 'authorized';
   }
 
-  async getAllConnectedClients(): Promise<number[]> {
-    return Array.from(this.activeConnections.entries())
-      .filter(([_, connected]) => connected)
-      .map(([clientId, _]) => clientId);
+  async getAllConnectedClients(): Promise<string[]> {
+    return Array.from(this.clients.keys()).filter((clientId) => this.isClientConnected(clientId));
   }
 
-  async subscribeClientToMarketData(clientId: number, symbols: string[]): Promise<void> {
-    const derivAPI = this.clientAPIs.get(clientId);
-    if (derivAPI && this.activeConnections.get(clientId)) {
-      for (const symbol of symbols) {
-        await derivAPI.subscribeToTicks(symbol);
-      }
+  async subscribeClientToMarketData(clientId: string, symbols: string[]): Promise<void> {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      throw new Error('Client not connected to Deriv API');
+    }
+
+    symbols.forEach((symbol) => client.symbols.add(symbol));
+    await storage.saveClientConnection({ userId: clientId, symbols: Array.from(client.symbols) });
+
+    for (const symbol of symbols) {
+      await this.marketData?.subscribe(this.consumerId(clientId), symbol);
     }
   }
 
-  async unsubscribeClientFromMarketData(clientId: number, symbols: string[]): Promise<void> {
-    const derivAPI = this.clientAPIs.get(clientId);
-    if (derivAPI && this.activeConnections.get(clientId)) {
-      for (const symbol of symbols) {
-        await derivAPI.unsubscribeFromTicks(symbol);
-      }
+  async unsubscribeClientFromMarketData(clientId: string, symbols: string[]): Promise<void> {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    symbols.forEach((symbol) => client.symbols.delete(symbol));
+    await storage.saveClientConnection({ userId: clientId, symbols: Array.from(client.symbols) });
+
+    for (const symbol of symbols) {
+      await this.marketData?.unsubscribe(this.consumerId(clientId), symbol);
     }
   }
 }
@@ -0,0 +1,164 @@
+import { EventEmitter } from 'events';
+import DerivAPI from './deriv-api';
+import { storage } from './storage';
+import { ledger } from './ledger';
+import type { OpenContract, ProposalOpenContractResponse } from './deriv-messages';
+import type { LedgerTransaction } from '@shared/schema';
+
+export interface TradeUpdate {
+  tradeId: number;
+  derivTradeId: string | null; // Null for paper trades
+  bidPrice: string | null;
+  currentSpot: string | null;
+  entryPrice: string | null;
+}
+
+export interface TradeClosure {
+  tradeId: number;
+  exitPrice: string;
+  payout: string;
+  profit: string;
+}
+
+interface TrackedContract {
+  tradeId: number;
+  derivAPI: DerivAPI;
+  subscriptionId?: string;
+}
+
+/**
+ * Follows bought contracts through proposal_open_contract and mirrors their
+ * state onto the trades table. Emits 'trade_updated' for live price changes
+ * and 'trade_closed' once Deriv reports the contract as sold or expired.
+ */
+export class ContractTracker extends EventEmitter {
+  private contracts = new Map<number, TrackedContract>();
+  private attachedAPIs = new WeakSet<DerivAPI>();
+
+  async track(derivAPI: DerivAPI, tradeId: number, contractId: number): Promise<void> {
+    if (this.contracts.has(contractId)) return;
+
+    this.attach(derivAPI);
+    const tracked: TrackedContract = { tradeId, derivAPI };
+    this.contracts.set(contractId, tracked);
+
+    try {
+      const response = await derivAPI.subscribeToOpenContract(contractId);
+      tracked.subscriptionId = response.subscription?.id;
+    } catch (error) {
+      console.error(`Failed to track contract ${contractId} for trade ${tradeId}:`, error);
+      this.contracts.delete(contractId);
+    }
+  }
+
+  async untrack(contractId: number): Promise<void> {
+    const tracked = this.contracts.get(contractId);
+    if (!tracked) return;
+
+    this.contracts.delete(contractId);
+    if (tracked.subscriptionId) {
+      await tracked.derivAPI.forget(tracked.subscriptionId).catch(() => {});
+    }
+  }
+
+  /**
+   * Asks Deriv for the contract's latest state, following it first if it
+   * isn't already (e.g. after a restart). Either way the answer arrives as an
+   * 'open_contract' event, so a sold contract settles through handleUpdate.
+   */
+  async reconcile(derivAPI: DerivAPI, tradeId: number, contractId: number): Promise<void> {
+    if (!this.contracts.has(contractId)) {
+      await this.track(derivAPI, tradeId, contractId);
+      return;
+    }
+    this.attach(derivAPI);
+    await derivAPI.getOpenContract(contractId);
+  }
+
+  /**
+   * Unwinds a contract that was bought but whose trade couldn't be recorded,
+   * so nothing is left running untracked: sells it straight back and refunds
+   * the stake in full, as the failure was ours. If the sale fails too, the
+   * stake stays reserved and both are logged to be reconciled by hand.
+   */
+  async abandon(derivAPI: DerivAPI, contractId: number, reservation: LedgerTransaction, stake: string): Promise<void> {
+    try {
+      await derivAPI.sellContract(contractId, 0);
+      await ledger.refundStake(reservation, stake);
+      console.warn(`Sold back contract ${contractId}, whose trade could not be recorded`);
+    } catch (error) {
+      console.error(
+        `Contract ${contractId} is open on Deriv with no trade recorded; stake reservation #${reservation.id} is still held:`,
+        error
+      );
+    }
+  }
+
+  isTracking(contractId: number): boolean {
+    return this.contracts.has(contractId);
+  }
+
+  private attach(derivAPI: DerivAPI) {
+    if (this.attachedAPIs.has(derivAPI)) return;
+    this.attachedAPIs.add(derivAPI);
+
+    derivAPI.on('open_contract', (response: ProposalOpenContractResponse) => {
+      const contract = response.proposal_open_contract;
+      if (!('contract_id' in contract)) return;
+
+      this.handleUpdate(contract).catch((error) => {
+        console.error(`Failed to update contract ${contract.contract_id}:`, error);
+      });
+    });
+  }
+
+  private async handleUpdate(contract: OpenContract): Promise<void> {
+    const tracked = this.contracts.get(contract.contract_id);
+    if (!tracked) return;
+
+    if (contract.is_sold === 1) {
+      // Untrack first so a second sold update can't settle the trade again
+      await this.untrack(contract.contract_id);
+      await this.settle(tracked.tradeId, contract);
+      return;
+    }
+
+    const update: TradeUpdate = {
+      tradeId: tracked.tradeId,
+      derivTradeId: contract.contract_id.toString(),
+      bidPrice: contract.bid_price?.toFixed(2) ?? null,
+      currentSpot: contract.current_spot?.toString() ?? null,
+      entryPrice: contract.entry_spot?.toString() ?? null,
+    };
+
+    await storage.updateTrade(tracked.tradeId, {
+      derivTradeId: update.derivTradeId,
+      bidPrice: update.bidPrice,
+      currentSpot: update.currentSpot,
+      ...(update.entryPrice ? { entryPrice: update.entryPrice } : {}),
+    });
+
+    this.emit('trade_updated', update);
+  }
+
+  private async settle(tradeId: number, contract: OpenContract): Promise<void> {
+    const soldFor = contract.sell_price ?? (contract.status === 'won' ? contract.payout ?? 0 : 0);
+    const profit = contract.profit ?? soldFor - (contract.buy_price ?? 0);
+    const exitSpot = contract.exit_tick ?? contract.current_spot;
+
+    const closure: TradeClosure = {
+      tradeId,
+      exitPrice: exitSpot !== undefined ? exitSpot.toString() : '0',
+      payout: soldFor.toFixed(2),
+      profit: profit.toFixed(2),
+    };
+
+    // Already closed when the sale went through the close route
+    if (!(await ledger.closeTrade(closure.tradeId, closure.exitPrice, closure.payout, closure.profit))) return;
+    console.log(`Trade ${tradeId} settled: contract ${contract.contract_id}, profit ${closure.profit}`);
+
+    this.emit('trade_closed', closure);
+  }
+}
+
+export const contractTracker = new ContractTracker();
@@ -0,0 +1,48 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { DerivAPI } from "./deriv-api";
+import { MockDerivServer } from "./mock-deriv-server";
+
+describe("DerivAPI", () => {
+  const mock = new MockDerivServer({ tickInterval: 50 });
+  let wsUrl: string;
+  let api: DerivAPI | undefined;
+
+  const connect = (apiToken: string) => {
+    api = new DerivAPI({ appId: "1089", apiToken, wsUrl });
+    return api;
+  };
+
+  beforeAll(async () => {
+    wsUrl = await mock.start();
+  });
+
+  afterEach(() => {
+    api?.disconnect();
+    api = undefined;
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  it("sends queued requests once the socket is authorized", async () => {
+    const api = connect("mock-token");
+    const balance = api.request({ balance: 1 });
+
+    await api.connect();
+    expect(await balance).toMatchObject({ balance: { loginid: "VRTC1000001" } });
+  });
+
+  it("rejects queued requests and retries when authorization fails", async () => {
+    const api = connect("revoked-token");
+    const failed = new Promise((resolve) => api.once("authorization_failed", resolve));
+    const reconnecting = new Promise((resolve) => api.once("reconnecting", resolve));
+    const balance = api.request({ balance: 1 });
+
+    await api.connect();
+    // Sent unauthorized, the request would fail with AuthorizationRequired instead
+    await expect(balance).rejects.toMatchObject({ code: "InvalidToken" });
+    await failed;
+    expect(await reconnecting).toMatchObject({ attempt: 1 });
+  });
+});
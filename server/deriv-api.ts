@@ -1,12 +1,141 @@
 import { WebSocket } from 'ws';
 import { EventEmitter } from 'events';
+import type { DurationType, TradeType } from '@shared/contracts';
+import {
+  parseDerivMessage,
+  type DerivMessage,
+  type DerivError,
+  type DerivRequest,
+  type DerivResponse,
+  type ActiveSymbolsResponse,
+  type AuthorizeResponse,
+  type BuyResponse,
+  type Candle,
+  type CandlesResponse,
+  type ContractsForResponse,
+  type ContractUpdateResponse,
+  type LimitOrder,
+  type ContractParameters,
+  type HistoryResponse,
+  type ProposalResponse,
+  type ProposalOpenContractResponse,
+  type SellResponse,
+  type TickResponse,
+} from './deriv-messages';
 
 export interface DerivAPIConfig {
   appId: string;
   apiToken?: string;
   wsUrl?: string;
+  requestTimeout?: number;
+  pingInterval?: number; // A ping that goes unanswered drops the socket
+  maxQueuedRequests?: number; // Requests buffered while disconnected
 }
 
+export class DerivAPIError extends Error {
+  code: string;
+  details?: Record<string, unknown>;
+
+  constructor(error: DerivError) {
+    super(error.message);
+    this.name = 'DerivAPIError';
+    this.code = error.code;
+    this.details = error.details;
+  }
+}
+
+export class DerivMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DerivMessageError';
+  }
+}
+
+export type DurationUnit = 't' | 's' | 'm' | 'h' | 'd';
+
+export interface ContractOptions {
+  symbol: string;
+  tradeType: TradeType;
+  amount: number;
+  duration?: number;
+  durationType?: DurationUnit;
+  dateExpiry?: number; // Epoch seconds; replaces duration when set
+  basis: 'stake' | 'payout';
+  currency?: string;
+  barrier?: string;
+  barrier2?: string;
+  multiplier?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  dealCancellation?: string;
+}
+
+// Trades and proposals are stored with named duration types; Deriv wants its unit letters
+const derivDurationUnits: Record<DurationType, DurationUnit> = {
+  ticks: 't',
+  seconds: 's',
+  minutes: 'm',
+  hours: 'h',
+  days: 'd'
+};
+
+function toDerivDurationUnit(durationType: string | null | undefined): DurationUnit | undefined {
+  return durationType ? derivDurationUnits[durationType as DurationType] : undefined;
+}
+
+export interface ContractRequest {
+  symbol: string;
+  tradeType: TradeType;
+  stake: string;
+  duration?: number | null;
+  durationType?: string | null;
+  dateExpiry?: Date | null;
+  barrier?: string | null;
+  barrier2?: string | null;
+  multiplier?: number | null;
+  stopLoss?: string | null;
+  takeProfit?: string | null;
+  dealCancellation?: string | null;
+  currency?: string;
+}
+
+export function toContractOptions(request: ContractRequest): ContractOptions {
+  return {
+    symbol: request.symbol,
+    tradeType: request.tradeType,
+    amount: parseFloat(request.stake),
+    duration: request.duration ?? undefined,
+    durationType: toDerivDurationUnit(request.durationType),
+    dateExpiry: request.dateExpiry ? Math.floor(request.dateExpiry.getTime() / 1000) : undefined,
+    basis: 'stake',
+    currency: request.currency,
+    barrier: request.barrier || undefined,
+    barrier2: request.barrier2 || undefined,
+    multiplier: request.multiplier || undefined,
+    stopLoss: request.stopLoss ? parseFloat(request.stopLoss) : undefined,
+    takeProfit: request.takeProfit ? parseFloat(request.takeProfit) : undefined,
+    dealCancellation: request.dealCancellation || undefined
+  };
+}
+
+interface PendingRequest {
+  resolve: (response: DerivResponse) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  message: DerivRequest & { req_id: number };
+  sent: boolean; // Unsent requests are queued until the socket is ready
+  onResponse?: (response: DerivResponse) => void; // Runs before any event for the response is emitted
+}
+
+// A subscription to re-send after reconnecting
+interface Stream {
+  request: DerivRequest;
+  currentId: string; // Deriv's id for the stream on the current socket
+}
+
+const MAX_RECONNECT_DELAY = 60000;
+const PING_TIMEOUT = 10000;
+
 export interface MarketData {
   symbol: string;
   bid: number;
@@ -15,195 +144,617 @@ export interface MarketData {
   spot?: number;
 }
 
-export interface TicksResponse {
-  tick: {
-    symbol: string;
-    quote: number;
-    epoch: number;
-  };
-}
-
 export class DerivAPI extends EventEmitter {
   private ws: WebSocket | null = null;
   private config: DerivAPIConfig;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private pingTimer: NodeJS.Timeout | null = null;
   private isConnected = false;
+  private isReady = false; // Open and, with a token, authorized
+  private stopped = false; // Set by disconnect() so the close does not reconnect
   private subscriptions = new Map<string, string>();
+  private streams = new Map<string, Stream>(); // By the subscription id callers were given
+  private streamAliases = new Map<string, string>(); // Deriv's current id -> the id callers know
+  private pendingRequests = new Map<number, PendingRequest>();
+  private lastRequestId = 0;
 
   constructor(config: DerivAPIConfig) {
     super();
     this.config = {
-      wsUrl: 'wss://ws.binaryws.com/websockets/v3',
-      ...config
+      requestTimeout: 30000,
+      pingInterval: 30000,
+      maxQueuedRequests: 500,
+      ...config,
+      // DERIV_WS_URL points every connection elsewhere, e.g. at server/mock-deriv-server.ts
+      wsUrl: config.wsUrl || process.env.DERIV_WS_URL || 'wss://ws.binaryws.com/websockets/v3'
     };
   }
 
   async connect(): Promise<void> {
+    this.stopped = false;
+    this.clearReconnectTimer();
     try {
-      this.ws = new WebSocket(`${this.config.wsUrl}?app_id=${this.config.appId}`);
-      
-      this.ws.on('open', () => {
-        console.log('Connected to Deriv WebSocket API');
-        this.isConnected = true;
-        this.reconnectAttempts = 0;
-        this.emit('connected');
-        
-        // Authenticate if token is provided
-        if (this.config.apiToken) {
-          this.authorize();
-        }
+      const ws = new WebSocket(`${this.config.wsUrl}?app_id=${this.config.appId}`);
+      this.ws = ws;
+
+      ws.on('open', () => {
+        this.handleOpen().catch((error) => {
+          console.error('Failed to prepare Deriv connection:', error);
+        });
       });
 
-      this.ws.on('message', (data: string) => {
+      ws.on('message', (data: string) => {
+        let payload: unknown;
         try {
-          const response = JSON.parse(data);
-          this.handleMessage(response);
+          payload = JSON.parse(data);
         } catch (error) {
           console.error('Error parsing WebSocket message:', error);
+          return;
         }
+        this.handleMessage(payload);
       });
 
-      this.ws.on('close', () => {
+      ws.on('close', () => {
+        // disconnect() or a newer socket has already taken over
+        if (ws !== this.ws) return;
+
         console.log('Disconnected from Deriv WebSocket API');
-        this.isConnected = false;
+        this.handleSocketClosed();
         this.emit('disconnected');
-        this.handleReconnect();
+        this.scheduleReconnect();
       });
 
-      this.ws.on('error', (error) => {
+      ws.on('error', (error) => {
         console.error('Deriv WebSocket error:', error);
-        this.emit('error', error);
+        this.emitError(error);
       });
 
     } catch (error) {
       console.error('Failed to connect to Deriv API:', error);
+      this.emitError(error);
+      this.scheduleReconnect();
+    }
+  }
+
+  // Authorizes first so restored streams and queued requests run with the account
+  private async handleOpen() {
+    console.log('Connected to Deriv WebSocket API');
+    this.isConnected = true;
+    this.startPing();
+    this.emit('connected');
+
+    const ws = this.ws;
+    if (this.config.apiToken) {
+      try {
+        await this.call<AuthorizeResponse>({ authorize: this.config.apiToken }, this.config.requestTimeout!, true);
+      } catch (error) {
+        // A socket that closed mid-authorization keeps its queue for the next one
+        if (!this.isConnected) return;
+
+        // Nothing may run unauthorized: queued requests fail and the socket is retried with backoff
+        console.error('Deriv authorization failed:', (error as Error).message);
+        this.rejectPendingRequests(error as Error);
+        this.emit('authorization_failed', error);
+        if (ws === this.ws) ws?.close();
+        return;
+      }
+    }
+    if (!this.isConnected) return;
+
+    this.reconnectAttempts = 0;
+    this.isReady = true;
+    this.restoreStreams();
+    this.flushQueue();
+  }
+
+  private handleSocketClosed() {
+    this.isConnected = false;
+    this.isReady = false;
+    this.stopPing();
+    this.streamAliases.clear();
+    // Queued requests wait for the next socket; anything already sent is lost with this one
+    this.rejectPendingRequests(new Error('Deriv WebSocket connection closed'), true);
+  }
+
+  private emitError(error: unknown) {
+    // An 'error' event without listeners would crash the process
+    if (this.listenerCount('error') > 0) {
       this.emit('error', error);
     }
   }
 
-  private handleMessage(response: any) {
-    if (response.msg_type === 'tick') {
-      this.emit('tick', response);
-    } else if (response.msg_type === 'authorize') {
-      this.emit('authorized', response);
-    } else if (response.msg_type === 'active_symbols') {
-      this.emit('symbols', response);
-    } else if (response.msg_type === 'buy') {
-      this.emit('trade_result', response);
-    } else if (response.error) {
-      console.error('Deriv API error:', response.error);
-      this.emit('api_error', response.error);
+  private handleMessage(payload: unknown) {
+    let message: DerivMessage;
+    try {
+      message = parseDerivMessage(payload);
+    } catch (error) {
+      const reqId = (payload as { req_id?: unknown } | null)?.req_id;
+      console.error('Unexpected Deriv message:', error);
+      this.settlePendingRequest(reqId, new DerivMessageError('Unexpected response payload from Deriv'));
+      this.emit('invalid_message', payload);
+      return;
+    }
+
+    if (!message.ok) {
+      const { error, req_id } = message.response;
+      console.error('Deriv API error:', error);
+      this.settlePendingRequest(req_id, new DerivAPIError(error));
+      this.emit('api_error', error);
+      return;
+    }
+
+    const response = message.response;
+    this.settlePendingRequest(response.req_id, response);
+
+    if ('subscription' in response && response.subscription) {
+      const streamId = this.streamAliases.get(response.subscription.id);
+      if (streamId) response.subscription.id = streamId;
+    }
+
+    switch (response.msg_type) {
+      case 'tick':
+        this.emit('tick', response);
+        break;
+      case 'authorize':
+        this.emit('authorized', response);
+        break;
+      case 'active_symbols':
+        this.emit('symbols', response);
+        break;
+      case 'proposal':
+        this.emit('proposal', response);
+        break;
+      case 'buy':
+        this.emit('trade_result', response);
+        break;
+      case 'proposal_open_contract':
+        this.emit('open_contract', response);
+        break;
+      case 'ohlc':
+        this.emit('ohlc', response);
+        break;
     }
   }
 
-  private async authorize() {
-    if (!this.config.apiToken) return;
-    
-    const request = {
+  private settlePendingRequest(reqId: unknown, outcome: DerivResponse | Error) {
+    const pending = typeof reqId === 'number' ? this.pendingRequests.get(reqId) : undefined;
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(reqId as number);
+
+    if (outcome instanceof Error) {
+      pending.reject(outcome);
+    } else {
+      pending.onResponse?.(outcome);
+      pending.resolve(outcome);
+    }
+  }
+
+  private rejectPendingRequests(error: Error, sentOnly = false) {
+    this.pendingRequests.forEach((pending, reqId) => {
+      if (sentOnly && !pending.sent) return;
+      clearTimeout(pending.timer);
+      this.pendingRequests.delete(reqId);
+      pending.reject(error);
+    });
+  }
+
+  async authorize(): Promise<AuthorizeResponse['authorize']> {
+    if (!this.config.apiToken) {
+      throw new Error('API token required for authorization');
+    }
+
+    const response = await this.request<AuthorizeResponse>({
       authorize: this.config.apiToken
-    };
-    
-    this.send(request);
-  }
-
-  private handleReconnect() {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
-      
-      console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
-      
-      setTimeout(() => {
+    });
+
+    return response.authorize;
+  }
+
+  // Exponential backoff with jitter, so many clients dropped together do not reconnect in lockstep
+  private scheduleReconnect() {
+    if (this.stopped || this.reconnectTimer) return;
+
+    this.reconnectAttempts++;
+    const backoff = Math.min(MAX_RECONNECT_DELAY, this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1));
+    const delay = Math.round(backoff / 2 + Math.random() * backoff / 2);
+
+    console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    this.emit('reconnecting', { attempt: this.reconnectAttempts, delay });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) {
         this.connect();
-      }, delay);
-    } else {
-      console.error('Max reconnection attempts reached');
-      this.emit('max_reconnect_reached');
+      }
+    }, delay);
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  // Deriv can leave a dead socket open; an unanswered ping forces the reconnect
+  private startPing() {
+    this.stopPing();
+    const ws = this.ws;
+    let awaitingPong = false;
+
+    this.pingTimer = setInterval(() => {
+      if (awaitingPong) return;
+      awaitingPong = true;
+      this.call({ ping: 1 }, Math.min(PING_TIMEOUT, this.config.pingInterval!), true)
+        .catch(() => {
+          if (ws !== this.ws) return;
+          console.error('Deriv ping went unanswered; dropping the socket');
+          ws?.terminate();
+        })
+        .finally(() => {
+          awaitingPong = false;
+        });
+    }, this.config.pingInterval);
+  }
+
+  private stopPing() {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
     }
   }
 
-  async getActiveSymbols(): Promise<void> {
-    const request = {
+  // Re-sends every subscription on the new socket. Callers keep the ids they
+  // were given: updates on the new stream are relabelled with the old id.
+  private restoreStreams() {
+    this.streams.forEach((stream, streamId) => {
+      this.call(stream.request, this.config.requestTimeout!, true, (response) => {
+        const currentId = (response as { subscription?: { id: string } }).subscription?.id;
+        if (!currentId) return;
+        stream.currentId = currentId;
+        this.streamAliases.set(currentId, streamId);
+      })
+        .then((response) => this.emit('stream_restored', streamId, response))
+        .catch((error) => {
+          console.error(`Failed to restore Deriv stream ${streamId}:`, error.message);
+          this.streams.delete(streamId);
+          this.emit('stream_lost', streamId, error);
+        });
+    });
+  }
+
+  async getActiveSymbols(): Promise<ActiveSymbolsResponse['active_symbols']> {
+    const response = await this.request<ActiveSymbolsResponse>({
       active_symbols: "brief",
       product_type: "basic"
-    };
-    
-    this.send(request);
+    });
+
+    return response.active_symbols;
+  }
+
+  async getContractsFor(symbol: string, currency = 'USD'): Promise<ContractsForResponse['contracts_for']['available']> {
+    const response = await this.request<ContractsForResponse>({
+      contracts_for: symbol,
+      currency,
+      product_type: 'basic'
+    });
+
+    return response.contracts_for.available;
   }
 
   async subscribeToTicks(symbol: string): Promise<void> {
-    const request = {
+    const response = await this.request<TickResponse>({
       ticks: symbol,
       subscribe: 1
-    };
-    
-    const reqId = this.generateRequestId();
-    this.subscriptions.set(symbol, reqId.toString());
-    
-    this.send({ ...request, req_id: reqId });
+    });
+
+    if (response.subscription?.id) {
+      this.subscriptions.set(symbol, response.subscription.id);
+    }
   }
 
   async unsubscribeFromTicks(symbol: string): Promise<void> {
-    const reqId = this.subscriptions.get(symbol);
-    if (reqId) {
-      const request = {
-        forget: reqId
-      };
-      
-      this.send(request);
+    const subscriptionId = this.subscriptions.get(symbol);
+    if (subscriptionId) {
       this.subscriptions.delete(symbol);
+      await this.forget(subscriptionId);
     }
   }
 
-  async placeTrade(options: {
-    symbol: string;
-    tradeType: 'CALL' | 'PUT';
-    amount: number;
-    duration: number;
-    durationType: 'm' | 'h' | 'd';
-    basis: 'stake' | 'payout';
-  }): Promise<void> {
+  async getTickHistory(symbol: string, count: number): Promise<HistoryResponse['history']> {
+    const response = await this.request<HistoryResponse>({
+      ticks_history: symbol,
+      end: 'latest',
+      count,
+      style: 'ticks'
+    });
+
+    return response.history;
+  }
+
+  async getCandles(symbol: string, granularity: number, count: number): Promise<Candle[]> {
+    const response = await this.request<CandlesResponse>({
+      ticks_history: symbol,
+      end: 'latest',
+      count,
+      style: 'candles',
+      granularity,
+      adjust_start_time: 1
+    });
+
+    return response.candles;
+  }
+
+  /**
+   * Fetches candle history and keeps streaming the current candle. Later
+   * updates are emitted as 'ohlc' events carrying the subscription id.
+   */
+  async subscribeToCandles(symbol: string, granularity: number, count: number): Promise<CandlesResponse> {
+    return this.request<CandlesResponse>({
+      ticks_history: symbol,
+      end: 'latest',
+      count,
+      style: 'candles',
+      granularity,
+      adjust_start_time: 1,
+      subscribe: 1
+    });
+  }
+
+  async forget(subscriptionId: string): Promise<void> {
+    const stream = this.streams.get(subscriptionId);
+    this.streams.delete(subscriptionId);
+    if (stream) this.streamAliases.delete(stream.currentId);
+
+    // A stream forgotten while disconnected is simply not restored
+    if (!this.isReady) return;
+    await this.request({ forget: stream?.currentId ?? subscriptionId });
+  }
+
+  async getProposal(options: ContractOptions): Promise<ProposalResponse['proposal']> {
+    const response = await this.request<ProposalResponse>({
+      proposal: 1,
+      ...this.buildContractParameters(options)
+    });
+
+    return response.proposal;
+  }
+
+  /**
+   * Starts a streaming proposal. Later price updates are emitted as
+   * 'proposal' events carrying the returned subscription id.
+   */
+  async subscribeToProposal(options: ContractOptions): Promise<ProposalResponse> {
+    return this.request<ProposalResponse>({
+      proposal: 1,
+      subscribe: 1,
+      ...this.buildContractParameters(options)
+    });
+  }
+
+  /**
+   * Streams the state of a bought contract. Every update, including the
+   * first, is emitted as an 'open_contract' event.
+   */
+  async subscribeToOpenContract(contractId: number): Promise<ProposalOpenContractResponse> {
+    return this.request<ProposalOpenContractResponse>({
+      proposal_open_contract: 1,
+      contract_id: contractId,
+      subscribe: 1
+    });
+  }
+
+  /**
+   * Fetches a bought contract's current state once. The response is also
+   * emitted as an 'open_contract' event.
+   */
+  async getOpenContract(contractId: number): Promise<ProposalOpenContractResponse> {
+    return this.request<ProposalOpenContractResponse>({
+      proposal_open_contract: 1,
+      contract_id: contractId
+    });
+  }
+
+  async buyProposal(proposalId: string, maxPrice: number): Promise<BuyResponse['buy']> {
     if (!this.config.apiToken) {
       throw new Error('API token required for trading');
     }
 
-    const contractType = options.tradeType === 'CALL' ? 'CALLE' : 'PUTE';
-    
-    const request = {
-      buy: 1,
-      price: options.amount,
-      parameters: {
-        amount: options.amount,
-        basis: options.basis,
-        contract_type: contractType,
-        currency: 'USD',
-        duration: options.duration,
-        duration_unit: options.durationType,
-        symbol: options.symbol
-      }
-    };
-    
-    this.send(request);
+    const response = await this.request<BuyResponse>({
+      buy: proposalId,
+      price: maxPrice
+    });
+
+    return response.buy;
+  }
+
+  /**
+   * Sells an open contract back to Deriv. A minPrice of 0 sells at market;
+   * otherwise Deriv rejects the sale if the bid falls below it.
+   */
+  async sellContract(contractId: number, minPrice = 0): Promise<SellResponse['sell']> {
+    if (!this.config.apiToken) {
+      throw new Error('API token required for trading');
+    }
+
+    const response = await this.request<SellResponse>({
+      sell: contractId,
+      price: minPrice
+    });
+
+    return response.sell;
+  }
+
+  /**
+   * Replaces the stop loss and take profit of an open multiplier. Passing
+   * null for either removes that order; leaving it undefined keeps it.
+   */
+  async updateLimitOrders(contractId: number, limitOrder: LimitOrder): Promise<ContractUpdateResponse['contract_update']> {
+    if (!this.config.apiToken) {
+      throw new Error('API token required for trading');
+    }
+
+    const response = await this.request<ContractUpdateResponse>({
+      contract_update: 1,
+      contract_id: contractId,
+      limit_order: limitOrder
+    });
+
+    return response.contract_update;
   }
 
-  private send(data: any) {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(data));
+  async placeTrade(options: ContractOptions): Promise<BuyResponse['buy']> {
+    if (!this.config.apiToken) {
+      throw new Error('API token required for trading');
+    }
+
+    const proposal = await this.getProposal(options);
+    return this.buyProposal(proposal.id, proposal.ask_price);
+  }
+
+  private buildContractParameters(options: ContractOptions): ContractParameters {
+    const parameters: ContractParameters = {
+      amount: options.amount,
+      basis: options.basis,
+      contract_type: options.tradeType,
+      currency: options.currency || 'USD',
+      symbol: options.symbol
+    };
+
+    // Multipliers run until closed and take no duration
+    if (options.multiplier) {
+      parameters.multiplier = options.multiplier;
+      if (options.stopLoss || options.takeProfit) {
+        parameters.limit_order = {
+          ...(options.stopLoss ? { stop_loss: options.stopLoss } : {}),
+          ...(options.takeProfit ? { take_profit: options.takeProfit } : {})
+        };
+      }
+      if (options.dealCancellation) {
+        parameters.cancellation = options.dealCancellation;
+      }
+    } else if (options.dateExpiry) {
+      parameters.date_expiry = options.dateExpiry;
     } else {
-      console.error('WebSocket not connected');
+      parameters.duration = options.duration;
+      parameters.duration_unit = options.durationType;
     }
+
+    if (options.barrier) parameters.barrier = options.barrier;
+    if (options.barrier2) parameters.barrier2 = options.barrier2;
+
+    return parameters;
+  }
+
+  /**
+   * Sends a request tagged with a fresh req_id and resolves with the matching
+   * response. Requests made while disconnected are queued and sent once the
+   * socket is back and authorized. Subscriptions are remembered and re-sent
+   * after every reconnect. Rejects with a DerivAPIError when Deriv answers
+   * with an error, or when no answer arrives within the configured timeout.
+   */
+  request<T extends DerivResponse = DerivResponse>(
+    data: DerivRequest,
+    timeout = this.config.requestTimeout!
+  ): Promise<T> {
+    const isSubscription = (data as { subscribe?: number }).subscribe === 1;
+
+    return this.call<T>(data, timeout, false, isSubscription ? (response) => {
+      const subscriptionId = (response as { subscription?: { id: string } }).subscription?.id;
+      if (subscriptionId) {
+        this.streams.set(subscriptionId, { request: data, currentId: subscriptionId });
+      }
+    } : undefined);
+  }
+
+  // immediate requests skip the queue; they are only valid on an open socket
+  private call<T extends DerivResponse = DerivResponse>(
+    data: DerivRequest,
+    timeout: number,
+    immediate: boolean,
+    onResponse?: (response: DerivResponse) => void
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (this.stopped) {
+        reject(new Error('Deriv connection was closed'));
+        return;
+      }
+      if (immediate && !this.isConnected) {
+        reject(new Error('WebSocket not connected'));
+        return;
+      }
+      if (!immediate && !this.isReady && this.queuedRequestCount() >= this.config.maxQueuedRequests!) {
+        reject(new Error('Too many Deriv requests queued while disconnected'));
+        return;
+      }
+
+      const reqId = this.generateRequestId();
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(reqId);
+        reject(new Error(`Deriv request ${reqId} timed out after ${timeout}ms`));
+      }, timeout);
+
+      this.pendingRequests.set(reqId, {
+        resolve: (response) => resolve(response as T),
+        reject,
+        timer,
+        message: { ...data, req_id: reqId },
+        sent: false,
+        onResponse
+      });
+      if (immediate || this.isReady) {
+        this.send(reqId);
+      }
+    });
+  }
+
+  private send(reqId: number) {
+    const pending = this.pendingRequests.get(reqId);
+    if (!pending || !this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+    pending.sent = true;
+    this.ws.send(JSON.stringify(pending.message));
+  }
+
+  // Pending requests are kept in the order they were made
+  private flushQueue() {
+    Array.from(this.pendingRequests.entries())
+      .filter(([, pending]) => !pending.sent)
+      .forEach(([reqId]) => this.send(reqId));
+  }
+
+  private queuedRequestCount(): number {
+    let count = 0;
+    this.pendingRequests.forEach((pending) => {
+      if (!pending.sent) count++;
+    });
+    return count;
   }
 
   private generateRequestId(): number {
-    return Math.floor(Math.random() * 1000000000);
+    return ++this.lastRequestId;
   }
 
   disconnect() {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    this.stopped = true;
+    this.clearReconnectTimer();
+
+    const ws = this.ws;
+    this.ws = null;
+    const wasConnected = this.isConnected;
+    this.handleSocketClosed();
+    this.rejectPendingRequests(new Error('Deriv connection was closed'));
+    this.streams.clear();
+
+    if (ws) {
+      ws.close();
+    }
+    if (wasConnected) {
+      this.emit('disconnected');
     }
   }
 
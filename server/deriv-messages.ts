@@ -0,0 +1,495 @@
+import { z } from 'zod';
+
+// Deriv v3 WebSocket message model. Only the requests and responses this
+// project actually uses are described here; unknown fields are stripped.
+
+// Requests
+
+export interface ContractParameters {
+  amount: number;
+  basis: 'stake' | 'payout';
+  contract_type: string;
+  currency: string;
+  symbol: string;
+  duration?: number;
+  duration_unit?: 't' | 's' | 'm' | 'h' | 'd';
+  date_expiry?: number;
+  barrier?: string;
+  barrier2?: string;
+  multiplier?: number;
+  limit_order?: LimitOrder;
+  cancellation?: string;
+}
+
+export interface LimitOrder {
+  stop_loss?: number | null;
+  take_profit?: number | null;
+}
+
+export interface AuthorizeRequest {
+  authorize: string;
+}
+
+export interface ActiveSymbolsRequest {
+  active_symbols: 'brief' | 'full';
+  product_type?: 'basic';
+}
+
+export interface ContractsForRequest {
+  contracts_for: string;
+  currency?: string;
+  product_type?: 'basic';
+}
+
+export interface TicksRequest {
+  ticks: string;
+  subscribe?: 1;
+}
+
+export interface TicksHistoryRequest {
+  ticks_history: string;
+  end: 'latest' | number;
+  start?: number;
+  count?: number;
+  style?: 'ticks' | 'candles';
+  granularity?: number;
+  adjust_start_time?: 1;
+  subscribe?: 1;
+}
+
+export interface ProposalRequest extends ContractParameters {
+  proposal: 1;
+  subscribe?: 1;
+}
+
+export interface BuyRequest {
+  buy: string | 1;
+  price: number;
+  parameters?: ContractParameters;
+  subscribe?: 1;
+}
+
+export interface SellRequest {
+  sell: number;
+  price: number;
+}
+
+export interface ContractUpdateRequest {
+  contract_update: 1;
+  contract_id: number;
+  limit_order: LimitOrder;
+}
+
+export interface ProposalOpenContractRequest {
+  proposal_open_contract: 1;
+  contract_id?: number;
+  subscribe?: 1;
+}
+
+export interface PortfolioRequest {
+  portfolio: 1;
+}
+
+export interface BalanceRequest {
+  balance: 1;
+  subscribe?: 1;
+}
+
+export interface StatementRequest {
+  statement: 1;
+  description?: 1;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ProfitTableRequest {
+  profit_table: 1;
+  description?: 1;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ForgetRequest {
+  forget: string;
+}
+
+export interface PingRequest {
+  ping: 1;
+}
+
+export type DerivRequest =
+  | AuthorizeRequest
+  | ActiveSymbolsRequest
+  | ContractsForRequest
+  | TicksRequest
+  | TicksHistoryRequest
+  | ProposalRequest
+  | BuyRequest
+  | SellRequest
+  | ContractUpdateRequest
+  | ProposalOpenContractRequest
+  | PortfolioRequest
+  | BalanceRequest
+  | StatementRequest
+  | ProfitTableRequest
+  | ForgetRequest
+  | PingRequest;
+
+// Responses
+
+export const derivErrorSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  details: z.record(z.unknown()).optional(),
+});
+
+const subscriptionSchema = z.object({ id: z.string() }).optional();
+
+const envelope = {
+  req_id: z.number().optional(),
+  echo_req: z.record(z.unknown()).optional(),
+  subscription: subscriptionSchema,
+};
+
+export const authorizeResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('authorize'),
+  authorize: z.object({
+    loginid: z.string(),
+    balance: z.number(),
+    currency: z.string(),
+    email: z.string().optional(),
+    fullname: z.string().optional(),
+    is_virtual: z.number().optional(),
+    scopes: z.array(z.string()).optional(),
+  }),
+});
+
+export const activeSymbolsResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('active_symbols'),
+  active_symbols: z.array(z.object({
+    symbol: z.string(),
+    display_name: z.string(),
+    market: z.string(),
+    submarket: z.string(),
+    exchange_is_open: z.number().optional(),
+    is_trading_suspended: z.number().optional(),
+    pip: z.number().optional(),
+  })),
+});
+
+export const contractsForResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('contracts_for'),
+  contracts_for: z.object({
+    available: z.array(z.object({
+      contract_type: z.string(),
+      contract_category: z.string(),
+      contract_display: z.string().optional(),
+      barriers: z.number(),
+      barrier: z.coerce.string().optional(),
+      high_barrier: z.coerce.string().optional(),
+      low_barrier: z.coerce.string().optional(),
+      min_contract_duration: z.string().optional(),
+      max_contract_duration: z.string().optional(),
+      expiry_type: z.string().optional(),
+      multiplier_range: z.array(z.number()).optional(),
+    })),
+  }),
+});
+
+export const tickResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('tick'),
+  tick: z.object({
+    symbol: z.string(),
+    quote: z.number(),
+    epoch: z.number(),
+    id: z.string().optional(),
+    ask: z.number().optional(),
+    bid: z.number().optional(),
+    pip_size: z.number().optional(),
+  }),
+});
+
+export const historyResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('history'),
+  history: z.object({
+    prices: z.array(z.number()),
+    times: z.array(z.number()),
+  }),
+  pip_size: z.number().optional(),
+});
+
+export const candleSchema = z.object({
+  epoch: z.number(),
+  open: z.coerce.number(),
+  high: z.coerce.number(),
+  low: z.coerce.number(),
+  close: z.coerce.number(),
+});
+
+export const candlesResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('candles'),
+  candles: z.array(candleSchema),
+  pip_size: z.number().optional(),
+});
+
+export const ohlcResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('ohlc'),
+  ohlc: z.object({
+    symbol: z.string(),
+    epoch: z.number(),
+    open_time: z.number(),
+    granularity: z.number(),
+    open: z.coerce.number(),
+    high: z.coerce.number(),
+    low: z.coerce.number(),
+    close: z.coerce.number(),
+  }),
+});
+
+export const proposalResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('proposal'),
+  proposal: z.object({
+    id: z.string(),
+    ask_price: z.number(),
+    payout: z.number(),
+    longcode: z.string(),
+    spot: z.number().optional(),
+    spot_time: z.number().optional(),
+    date_start: z.number().optional(),
+    date_expiry: z.number().optional(),
+    display_value: z.string().optional(),
+  }),
+});
+
+export const buyResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('buy'),
+  buy: z.object({
+    contract_id: z.number(),
+    transaction_id: z.number(),
+    buy_price: z.number(),
+    payout: z.number(),
+    longcode: z.string(),
+    shortcode: z.string().optional(),
+    start_time: z.number(),
+    purchase_time: z.number().optional(),
+    balance_after: z.number(),
+  }),
+});
+
+export const sellResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('sell'),
+  sell: z.object({
+    contract_id: z.number(),
+    transaction_id: z.number(),
+    reference_id: z.number().optional(),
+    sold_for: z.number(),
+    balance_after: z.number(),
+  }),
+});
+
+const limitOrderValueSchema = z.object({
+  order_amount: z.number().nullable().optional(),
+  value: z.coerce.string().nullable().optional(),
+}).optional();
+
+export const contractUpdateResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('contract_update'),
+  contract_update: z.object({
+    stop_loss: limitOrderValueSchema,
+    take_profit: limitOrderValueSchema,
+  }),
+});
+
+export const openContractSchema = z.object({
+  contract_id: z.number(),
+  contract_type: z.string().optional(),
+  underlying: z.string().optional(),
+  status: z.enum(['open', 'won', 'lost', 'sold', 'cancelled']).nullable().optional(),
+  is_sold: z.number().optional(),
+  is_expired: z.number().optional(),
+  is_valid_to_sell: z.number().optional(),
+  buy_price: z.number().optional(),
+  bid_price: z.number().optional(),
+  sell_price: z.number().optional(),
+  payout: z.number().optional(),
+  profit: z.number().optional(),
+  current_spot: z.number().optional(),
+  entry_spot: z.number().optional(),
+  exit_tick: z.number().optional(),
+  date_start: z.number().optional(),
+  date_expiry: z.number().optional(),
+  sell_time: z.number().nullable().optional(),
+  longcode: z.string().optional(),
+  multiplier: z.number().optional(),
+  limit_order: z.object({
+    stop_loss: limitOrderValueSchema,
+    take_profit: limitOrderValueSchema,
+  }).optional(),
+});
+
+export const proposalOpenContractResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('proposal_open_contract'),
+  // Deriv answers with an empty object when the contract is unknown
+  proposal_open_contract: z.union([openContractSchema, z.object({}).strict()]),
+});
+
+export const portfolioResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('portfolio'),
+  portfolio: z.object({
+    contracts: z.array(z.object({
+      contract_id: z.number(),
+      contract_type: z.string(),
+      symbol: z.string(),
+      buy_price: z.number(),
+      payout: z.number().optional(),
+      date_start: z.number(),
+      expiry_time: z.number().optional(),
+      longcode: z.string().optional(),
+      transaction_id: z.number(),
+    })),
+  }),
+});
+
+export const balanceResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('balance'),
+  balance: z.object({
+    balance: z.number(),
+    currency: z.string(),
+    loginid: z.string().optional(),
+    id: z.string().optional(),
+  }),
+});
+
+export const statementResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('statement'),
+  statement: z.object({
+    count: z.number(),
+    transactions: z.array(z.object({
+      action_type: z.string(),
+      amount: z.number(),
+      balance_after: z.number(),
+      transaction_id: z.number(),
+      transaction_time: z.number(),
+      contract_id: z.number().nullable().optional(),
+      reference_id: z.number().optional(),
+      longcode: z.string().optional(),
+    })),
+  }),
+});
+
+export const profitTableResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('profit_table'),
+  profit_table: z.object({
+    count: z.number(),
+    transactions: z.array(z.object({
+      contract_id: z.number(),
+      transaction_id: z.number(),
+      buy_price: z.number(),
+      sell_price: z.number(),
+      payout: z.number().optional(),
+      purchase_time: z.number(),
+      sell_time: z.number(),
+      shortcode: z.string().optional(),
+      longcode: z.string().optional(),
+    })),
+  }),
+});
+
+export const forgetResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('forget'),
+  forget: z.number(),
+});
+
+export const pingResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.literal('ping'),
+  ping: z.literal('pong'),
+});
+
+export const derivResponseSchema = z.discriminatedUnion('msg_type', [
+  authorizeResponseSchema,
+  activeSymbolsResponseSchema,
+  contractsForResponseSchema,
+  tickResponseSchema,
+  historyResponseSchema,
+  candlesResponseSchema,
+  ohlcResponseSchema,
+  proposalResponseSchema,
+  buyResponseSchema,
+  sellResponseSchema,
+  contractUpdateResponseSchema,
+  proposalOpenContractResponseSchema,
+  portfolioResponseSchema,
+  balanceResponseSchema,
+  statementResponseSchema,
+  profitTableResponseSchema,
+  forgetResponseSchema,
+  pingResponseSchema,
+]);
+
+// Error responses keep the msg_type of the request but carry no payload
+export const derivErrorResponseSchema = z.object({
+  ...envelope,
+  msg_type: z.string(),
+  error: derivErrorSchema,
+});
+
+export type DerivError = z.infer<typeof derivErrorSchema>;
+export type AuthorizeResponse = z.infer<typeof authorizeResponseSchema>;
+export type ActiveSymbolsResponse = z.infer<typeof activeSymbolsResponseSchema>;
+export type ContractsForResponse = z.infer<typeof contractsForResponseSchema>;
+export type TickResponse = z.infer<typeof tickResponseSchema>;
+export type HistoryResponse = z.infer<typeof historyResponseSchema>;
+export type Candle = z.infer<typeof candleSchema>;
+export type CandlesResponse = z.infer<typeof candlesResponseSchema>;
+export type OhlcResponse = z.infer<typeof ohlcResponseSchema>;
+export type ProposalResponse = z.infer<typeof proposalResponseSchema>;
+export type BuyResponse = z.infer<typeof buyResponseSchema>;
+export type SellResponse = z.infer<typeof sellResponseSchema>;
+export type ContractUpdateResponse = z.infer<typeof contractUpdateResponseSchema>;
+export type OpenContract = z.infer<typeof openContractSchema>;
+export type ProposalOpenContractResponse = z.infer<typeof proposalOpenContractResponseSchema>;
+export type PortfolioResponse = z.infer<typeof portfolioResponseSchema>;
+export type BalanceResponse = z.infer<typeof balanceResponseSchema>;
+export type StatementResponse = z.infer<typeof statementResponseSchema>;
+export type ProfitTableResponse = z.infer<typeof profitTableResponseSchema>;
+export type ForgetResponse = z.infer<typeof forgetResponseSchema>;
+export type PingResponse = z.infer<typeof pingResponseSchema>;
+export type DerivResponse = z.infer<typeof derivResponseSchema>;
+export type DerivErrorResponse = z.infer<typeof derivErrorResponseSchema>;
+export type DerivMsgType = DerivResponse['msg_type'];
+
+export type DerivMessage =
+  | { ok: true; response: DerivResponse }
+  | { ok: false; response: DerivErrorResponse };
+
+/**
+ * Validates a raw Deriv payload. Error responses are recognised first since
+ * they share the msg_type of the failed request; anything else must match
+ * one of the known response shapes or a ZodError is thrown.
+ */
+export function parseDerivMessage(data: unknown): DerivMessage {
+  const errorResult = derivErrorResponseSchema.safeParse(data);
+  if (errorResult.success) {
+    return { ok: false, response: errorResult.data };
+  }
+
+  return { ok: true, response: derivResponseSchema.parse(data) };
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Trade } from "@shared/schema";
+
+// Without DATABASE_URL the scheduler runs on MemStorage, which never touches the pool
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.hoisted(() => {
+  delete process.env.DATABASE_URL;
+});
+
+const { ExpiryScheduler } = await import("./expiry-scheduler");
+const { storage } = await import("./storage");
+
+describe("ExpiryScheduler", () => {
+  let scheduler: InstanceType<typeof ExpiryScheduler>;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    scheduler = new ExpiryScheduler();
+    await storage.upsertUser({ id: "expiry-user", email: "expiry-user@example.com" });
+  });
+
+  afterEach(async () => {
+    // start() picks up every open trade, so none are left for the next test
+    for (const trade of await storage.getOpenTrades()) {
+      scheduler.cancel(trade.id);
+      await storage.updateTrade(trade.id, { status: "lost" });
+    }
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const openTrade = (duration: number, durationType: string) => storage.createTrade({
+    userId: "expiry-user",
+    symbol: "R_100",
+    contractType: "Rise/Fall",
+    tradeType: "CALL",
+    stake: "10.00",
+    duration,
+    durationType,
+  });
+
+  it("checks a trade shortly after it expires", async () => {
+    const check = vi.fn(async (trade: Trade) => {
+      await storage.updateTrade(trade.id, { status: "won" });
+    });
+    await scheduler.start(check);
+    const trade = await openTrade(1, "minutes");
+
+    scheduler.schedule(trade);
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(check).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(check).toHaveBeenCalledWith(expect.objectContaining({ id: trade.id }));
+    expect(scheduler.isScheduled(trade.id)).toBe(false);
+  });
+
+  it("keeps checking a trade that won't settle and flags it for attention", async () => {
+    const check = vi.fn(async () => {});
+    await scheduler.start(check);
+    const trade = await openTrade(1, "minutes");
+    const attention = vi.fn();
+    scheduler.on("trade_attention", attention);
+
+    scheduler.schedule(trade);
+    await vi.advanceTimersByTimeAsync(65000 + 15000 + 30000);
+    expect(check).toHaveBeenCalledTimes(3);
+    expect(attention).not.toHaveBeenCalled();
+
+    // Stale ten minutes past expiry, noticed at the next two-minute recheck
+    await vi.advanceTimersByTimeAsync(11 * 60 * 1000);
+    expect(attention).toHaveBeenCalledWith(expect.objectContaining({ tradeId: trade.id }));
+    expect((await storage.getTrade(trade.id))?.needsAttention).toBe(true);
+    expect(scheduler.isScheduled(trade.id)).toBe(true);
+  });
+
+  it("splits waits longer than a timer can hold", async () => {
+    const check = vi.fn(async (trade: Trade) => {
+      await storage.updateTrade(trade.id, { status: "won" });
+    });
+    await scheduler.start(check);
+    const trade = await openTrade(30, "days");
+
+    scheduler.schedule(trade);
+    // Node would fire a single 30-day timeout at once
+    await vi.advanceTimersByTimeAsync(2 ** 31);
+    expect(check).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(30 * 86400 * 1000);
+    expect(check).toHaveBeenCalledTimes(1);
+  });
+});
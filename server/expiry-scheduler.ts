@@ -0,0 +1,103 @@
+import { EventEmitter } from 'events';
+import { storage } from './storage';
+import { getContractExpiry } from '@shared/contracts';
+import type { Trade } from '@shared/schema';
+
+// Asks an expired trade's source for its result: Deriv for live trades, the engine for paper ones
+export type SettlementCheck = (trade: Trade) => Promise<void>;
+
+export interface TradeAttention {
+  tradeId: number;
+  expiredAt: string;
+}
+
+const SETTLEMENT_GRACE = 5000; // Deriv normally settles within a few seconds of expiry
+const RECHECK_DELAYS = [15000, 30000, 60000, 120000]; // The last one repeats until the trade settles
+const STALE_AFTER = 10 * 60 * 1000; // Unsettled this long past expiry, a trade needs someone to look at it
+const SECONDS_PER_TICK = 5; // Tick contracts end on a tick count; allow for slow markets
+const MAX_TIMEOUT = 2 ** 31 - 1; // Node fires longer timeouts immediately, so long waits are split
+
+function expiryOf(trade: Trade): Date | null {
+  if (trade.durationType === 'ticks' && trade.duration && trade.createdAt) {
+    return new Date(trade.createdAt.getTime() + trade.duration * SECONDS_PER_TICK * 1000);
+  }
+  return getContractExpiry(trade);
+}
+
+/**
+ * Makes sure trades are settled once their duration elapses. Open trades are
+ * scheduled from the trades table on start and as they're placed, so a
+ * restart loses nothing. Past expiry each trade is checked against its source
+ * until it settles; one still open STALE_AFTER its expiry is flagged
+ * needsAttention and reported as 'trade_attention', and keeps being checked.
+ * Multipliers have no expiry and aren't scheduled.
+ */
+export class ExpiryScheduler extends EventEmitter {
+  private timers = new Map<number, NodeJS.Timeout>();
+  private check?: SettlementCheck;
+
+  async start(check: SettlementCheck): Promise<void> {
+    this.check = check;
+    const trades = await storage.getOpenTrades();
+    trades.forEach((trade) => this.schedule(trade));
+  }
+
+  schedule(trade: Trade) {
+    const expiry = expiryOf(trade);
+    if (!expiry) return;
+
+    this.cancel(trade.id);
+    this.wait(trade.id, Math.max(0, expiry.getTime() + SETTLEMENT_GRACE - Date.now()), 0);
+  }
+
+  cancel(tradeId: number) {
+    clearTimeout(this.timers.get(tradeId));
+    this.timers.delete(tradeId);
+  }
+
+  isScheduled(tradeId: number): boolean {
+    return this.timers.has(tradeId);
+  }
+
+  private wait(tradeId: number, delay: number, attempt: number) {
+    if (delay > MAX_TIMEOUT) {
+      this.timers.set(tradeId, setTimeout(() => this.wait(tradeId, delay - MAX_TIMEOUT, attempt), MAX_TIMEOUT));
+      return;
+    }
+
+    this.timers.set(tradeId, setTimeout(() => {
+      this.timers.delete(tradeId);
+      this.checkTrade(tradeId, attempt).catch((error) => {
+        console.error(`Settlement check failed for trade ${tradeId}:`, error);
+      });
+    }, delay));
+  }
+
+  private async checkTrade(tradeId: number, attempt: number): Promise<void> {
+    const trade = await storage.getTrade(tradeId);
+    if (!trade || trade.status !== 'open') return;
+
+    if (this.check) {
+      try {
+        await this.check(trade);
+      } catch (error) {
+        console.error(`Could not reconcile trade ${tradeId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    // The check may have settled it, or its result may still be on the way
+    const latest = await storage.getTrade(tradeId);
+    if (!latest || latest.status !== 'open') return;
+
+    const expiry = expiryOf(latest)!;
+    if (!latest.needsAttention && Date.now() - expiry.getTime() >= STALE_AFTER) {
+      await storage.updateTrade(tradeId, { needsAttention: true });
+      console.warn(`Trade ${tradeId} is still open ${STALE_AFTER / 60000} minutes after expiry`);
+      this.emit('trade_attention', { tradeId, expiredAt: expiry.toISOString() } satisfies TradeAttention);
+    }
+
+    this.wait(tradeId, RECHECK_DELAYS[Math.min(attempt, RECHECK_DELAYS.length - 1)], attempt + 1);
+  }
+}
+
+export const expiryScheduler = new ExpiryScheduler();
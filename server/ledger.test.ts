@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Without DATABASE_URL the ledger runs on MemStorage, which never touches the pool
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.hoisted(() => {
+  delete process.env.DATABASE_URL;
+});
+
+const { ledger, InsufficientFundsError } = await import("./ledger");
+const { storage } = await import("./storage");
+
+describe("Ledger", () => {
+  let userId: string;
+  let lastUser = 0;
+
+  beforeEach(async () => {
+    userId = `ledger-user-${++lastUser}`;
+    await storage.upsertUser({ id: userId, email: `${userId}@example.com` });
+    await ledger.deposit(userId, "100.00", "Test balance");
+  });
+
+  const placeTrade = async (stake: string) => {
+    const reservation = await ledger.reserveStake(userId, stake, "CALL on R_100");
+    const trade = await storage.createTrade({ userId, symbol: "R_100", contractType: "Rise/Fall", tradeType: "CALL", stake });
+    await ledger.attachStake(reservation, trade.id);
+    return { reservation, trade };
+  };
+
+  it("reads the balance back from the wallet's entries", async () => {
+    await ledger.adjust(userId, "-25.50", "Correction", userId);
+
+    expect(await ledger.getBalance(userId)).toBe("74.50");
+    const statement = await ledger.getStatement(userId);
+    expect(statement.map((line) => [line.kind, line.amount])).toEqual(
+      expect.arrayContaining([["deposit", "100.00"], ["adjustment", "-25.50"]])
+    );
+  });
+
+  it("won't let concurrent stakes spend the same funds", async () => {
+    const results = await Promise.allSettled([
+      ledger.reserveStake(userId, "60.00", "CALL on R_100"),
+      ledger.reserveStake(userId, "60.00", "PUT on R_100"),
+    ]);
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+    const rejected = results.find((result) => result.status === "rejected") as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(InsufficientFundsError);
+    expect(await ledger.getBalance(userId)).toBe("40.00");
+  });
+
+  it("hands back a refunded stake", async () => {
+    const reservation = await ledger.reserveStake(userId, "30.00", "CALL on R_100");
+    expect(await ledger.getBalance(userId)).toBe("70.00");
+
+    await ledger.refundStake(reservation, "30.00");
+    expect(await ledger.getBalance(userId)).toBe("100.00");
+  });
+
+  it("pays a trade out once, however often it's closed", async () => {
+    const { trade } = await placeTrade("10.00");
+
+    expect(await ledger.closeTrade(trade.id, "1001.00000", "19.50", "9.50")).toBe(true);
+    expect(await ledger.closeTrade(trade.id, "1001.00000", "19.50", "9.50")).toBe(false);
+
+    expect(await ledger.getBalance(userId)).toBe("109.50");
+    expect(await storage.getTrade(trade.id)).toMatchObject({ status: "won", payout: "19.50", profit: "9.50" });
+  });
+
+  it("syncs the wallet to the balance Deriv reports", async () => {
+    expect(await ledger.syncWithDeriv(userId, 87.25)).toMatchObject({ kind: "deriv_sync" });
+    expect(await ledger.getBalance(userId)).toBe("87.25");
+
+    expect(await ledger.syncWithDeriv(userId, 87.25)).toBeUndefined();
+  });
+});
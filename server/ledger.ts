@@ -0,0 +1,123 @@
+import { storage } from './storage';
+import {
+  ledgerAccounts,
+  walletAccount,
+  type InsertLedgerEntry,
+  type LedgerTransaction,
+  type StatementLine
+} from '@shared/schema';
+
+export class InsufficientFundsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Entries for amounts moved between accounts; they must net to zero
+function entries(...legs: Array<[account: string, amount: number]>): InsertLedgerEntry[] {
+  const total = round(legs.reduce((sum, [, amount]) => sum + amount, 0));
+  if (total !== 0) {
+    throw new Error(`Ledger entries are off balance by ${total.toFixed(2)}`);
+  }
+  return legs
+    .filter(([, amount]) => round(amount) !== 0)
+    .map(([account, amount]) => ({ account, amount: round(amount).toFixed(2) }));
+}
+
+/**
+ * Moves money through the double-entry ledger. A user's balance is only ever
+ * read back as the sum of their wallet entries, never stored, so it can't
+ * drift from the history that produced it.
+ *
+ * Stakes leave the wallet before a trade is placed, under the storage's lock
+ * on the user, so two trades placed at once can't both spend the same funds.
+ * They sit in house:open_stakes until the trade settles or is refunded.
+ */
+export class Ledger {
+  getBalance(userId: string): Promise<string> {
+    return storage.getBalance(userId);
+  }
+
+  getStatement(userId: string): Promise<StatementLine[]> {
+    return storage.getStatement(userId);
+  }
+
+  async deposit(userId: string, amount: string, description: string, createdBy?: string): Promise<LedgerTransaction | undefined> {
+    const value = parseFloat(amount);
+    return storage.postLedgerTransaction({ userId, kind: 'deposit', description, createdBy }, () =>
+      entries([walletAccount(userId), value], [ledgerAccounts.deposits, -value])
+    );
+  }
+
+  async adjust(userId: string, amount: string, description: string, createdBy: string): Promise<LedgerTransaction | undefined> {
+    const value = parseFloat(amount);
+    return storage.postLedgerTransaction({ userId, kind: 'adjustment', description, createdBy }, () =>
+      entries([walletAccount(userId), value], [ledgerAccounts.adjustments, -value])
+    );
+  }
+
+  // Takes the stake out of the wallet ahead of placing a trade
+  async reserveStake(userId: string, stake: string, description: string): Promise<LedgerTransaction> {
+    const value = parseFloat(stake);
+    const reservation = await storage.postLedgerTransaction({ userId, kind: 'stake', description }, (balance) =>
+      balance >= value ? entries([walletAccount(userId), -value], [ledgerAccounts.openStakes, value]) : null
+    );
+    if (!reservation) {
+      throw new InsufficientFundsError('Insufficient balance for this stake');
+    }
+    return reservation;
+  }
+
+  // Ties a reservation to the trade it paid for, once that's recorded
+  async attachStake(reservation: LedgerTransaction, tradeId: number): Promise<void> {
+    await storage.linkLedgerTransaction(reservation.id, tradeId);
+  }
+
+  // Hands a reserved stake back when its trade couldn't be placed
+  async refundStake(reservation: LedgerTransaction, stake: string): Promise<void> {
+    const value = parseFloat(stake);
+    const refund = { userId: reservation.userId, kind: 'refund', description: `Refund of stake #${reservation.id}` };
+    await storage.postLedgerTransaction(refund, () =>
+      entries([ledgerAccounts.openStakes, -value], [walletAccount(reservation.userId), value])
+    );
+  }
+
+  /**
+   * Closes a trade and pays what it returned into the owner's wallet, in one
+   * storage transaction. Returns false when the trade was already closed, in
+   * which case nothing is paid.
+   */
+  async closeTrade(tradeId: number, exitPrice: string, payout: string, profit: string): Promise<boolean> {
+    const trade = await storage.getTrade(tradeId);
+    if (!trade) return false;
+
+    const stake = parseFloat(trade.stake);
+    const paid = parseFloat(payout);
+    const settlement = { userId: trade.userId, kind: 'payout', tradeId, description: `${trade.tradeType} on ${trade.symbol}` };
+    const posted = await storage.postLedgerTransaction(settlement, () =>
+      entries(
+        [ledgerAccounts.openStakes, -stake],
+        [walletAccount(trade.userId), paid],
+        [ledgerAccounts.trading, stake - paid]
+      ),
+      { tradeId, exitPrice, payout, profit }
+    );
+    return posted !== undefined;
+  }
+
+  // Brings the wallet in line with the balance Deriv reports for the account
+  async syncWithDeriv(userId: string, derivBalance: number): Promise<LedgerTransaction | undefined> {
+    const sync = { userId, kind: 'deriv_sync', description: 'Synced with Deriv account balance' };
+    return storage.postLedgerTransaction(sync, (balance) => {
+      const difference = round(derivBalance - balance);
+      return difference ? entries([walletAccount(userId), difference], [ledgerAccounts.deriv, -difference]) : null;
+    });
+  }
+}
+
+export const ledger = new Ledger();
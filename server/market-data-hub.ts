@@ -0,0 +1,137 @@
+import { EventEmitter } from 'events';
+import DerivAPI from './deriv-api';
+import type { TickResponse } from './deriv-messages';
+
+export interface MarketTick {
+  symbol: string;
+  quote: number;
+  epoch: number;
+  bid?: number;
+  ask?: number;
+}
+
+export type TickListener = (tick: MarketTick) => void;
+
+interface SymbolFeed {
+  consumers: Map<string, TickListener | undefined>;
+  subscribed: boolean;
+  sync: Promise<void>; // Upstream changes for a symbol run one at a time
+  latest?: MarketTick;
+}
+
+/**
+ * One upstream tick stream per symbol, shared by every consumer (browser
+ * sockets, managed clients, the market list). Consumers are counted by id, so
+ * subscribing twice is harmless, and the upstream stream is forgotten when the
+ * last consumer leaves. Every tick is also emitted as 'tick'.
+ */
+export class MarketDataHub extends EventEmitter {
+  private feeds = new Map<string, SymbolFeed>();
+
+  constructor(private derivAPI: DerivAPI) {
+    super();
+    derivAPI.on('tick', (response: TickResponse) => this.handleTick(response));
+  }
+
+  async subscribe(consumerId: string, symbol: string, listener?: TickListener): Promise<void> {
+    const feed = this.getFeed(symbol);
+    feed.consumers.set(consumerId, listener);
+
+    await this.reconcile(symbol, feed);
+    if (!feed.subscribed) {
+      feed.consumers.delete(consumerId);
+      if (feed.consumers.size === 0) this.dropFeed(symbol, feed);
+      throw new Error(`Failed to subscribe to ${symbol}`);
+    }
+  }
+
+  async unsubscribe(consumerId: string, symbol: string): Promise<void> {
+    const feed = this.feeds.get(symbol);
+    if (!feed || !feed.consumers.delete(consumerId)) return;
+
+    await this.reconcile(symbol, feed);
+  }
+
+  async unsubscribeAll(consumerId: string): Promise<void> {
+    await Promise.all(
+      this.getSubscriptions(consumerId).map((symbol) => this.unsubscribe(consumerId, symbol))
+    );
+  }
+
+  getSubscriptions(consumerId: string): string[] {
+    return Array.from(this.feeds.entries())
+      .filter(([, feed]) => feed.consumers.has(consumerId))
+      .map(([symbol]) => symbol);
+  }
+
+  getLatestTick(symbol: string): MarketTick | undefined {
+    return this.feeds.get(symbol)?.latest;
+  }
+
+  consumerCount(symbol: string): number {
+    return this.feeds.get(symbol)?.consumers.size ?? 0;
+  }
+
+  private getFeed(symbol: string): SymbolFeed {
+    let feed = this.feeds.get(symbol);
+    if (!feed) {
+      feed = { consumers: new Map(), subscribed: false, sync: Promise.resolve() };
+      this.feeds.set(symbol, feed);
+    }
+    return feed;
+  }
+
+  private dropFeed(symbol: string, feed: SymbolFeed) {
+    if (this.feeds.get(symbol) === feed) this.feeds.delete(symbol);
+  }
+
+  // Brings the upstream stream in line with whether anyone is still listening
+  private reconcile(symbol: string, feed: SymbolFeed): Promise<void> {
+    feed.sync = feed.sync.then(async () => {
+      const wanted = feed.consumers.size > 0;
+      if (wanted === feed.subscribed) return;
+
+      try {
+        if (wanted) {
+          await this.derivAPI.subscribeToTicks(symbol);
+        } else {
+          await this.derivAPI.unsubscribeFromTicks(symbol);
+        }
+        feed.subscribed = wanted;
+      } catch (error) {
+        console.error(`Failed to ${wanted ? 'subscribe to' : 'unsubscribe from'} ${symbol}:`, (error as Error).message);
+        // A failed forget still leaves nobody listening
+        if (!wanted) feed.subscribed = false;
+      }
+
+      if (!feed.subscribed && feed.consumers.size === 0) {
+        this.dropFeed(symbol, feed);
+      }
+    });
+    return feed.sync;
+  }
+
+  private handleTick(response: TickResponse) {
+    const { tick } = response;
+    const feed = this.feeds.get(tick.symbol);
+    if (!feed) return;
+
+    const marketTick: MarketTick = {
+      symbol: tick.symbol,
+      quote: tick.quote,
+      epoch: tick.epoch,
+      bid: tick.bid,
+      ask: tick.ask,
+    };
+    feed.latest = marketTick;
+
+    feed.consumers.forEach((listener, consumerId) => {
+      try {
+        listener?.(marketTick);
+      } catch (error) {
+        console.error(`Tick listener ${consumerId} failed:`, error);
+      }
+    });
+    this.emit('tick', marketTick);
+  }
+}
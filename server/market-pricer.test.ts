@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type DerivAPI from "./deriv-api";
+import type { MarketDataHub, MarketTick } from "./market-data-hub";
+
+// Without DATABASE_URL the pricer runs on MemStorage, which never touches the pool
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.hoisted(() => {
+  delete process.env.DATABASE_URL;
+});
+
+const { MarketPricer } = await import("./market-pricer");
+const { storage } = await import("./storage");
+
+describe("MarketPricer", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps subscribing a live market until Deriv answers", async () => {
+    let listener: ((tick: MarketTick) => void) | undefined;
+    const subscribe = vi.fn()
+      .mockRejectedValueOnce(new Error("Deriv request 1 timed out after 30000ms"))
+      .mockRejectedValueOnce(new Error("Deriv request 2 timed out after 30000ms"))
+      .mockImplementation(async (_consumer: string, _symbol: string, onTick: (tick: MarketTick) => void) => {
+        listener = onTick;
+      });
+    const hub = { subscribe, unsubscribe: vi.fn(async () => {}) } as unknown as MarketDataHub;
+    const pricer = new MarketPricer({} as DerivAPI, hub);
+
+    const market = await storage.createMarket({ symbol: "frxGBPUSD", name: "GBP/USD", category: "forex" });
+    pricer.track(market);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(subscribe).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(subscribe).toHaveBeenCalledTimes(2);
+    // The delay doubles after each failure
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(subscribe).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(subscribe).toHaveBeenCalledTimes(3);
+
+    listener!({ symbol: "frxGBPUSD", quote: 1.2345, epoch: Math.floor(Date.now() / 1000) });
+    expect(pricer.getMarket("frxGBPUSD")?.currentPrice).toBe("1.23450");
+
+    pricer.untrack("frxGBPUSD");
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(subscribe).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops retrying once the market is untracked", async () => {
+    const subscribe = vi.fn().mockRejectedValue(new Error("Failed to subscribe to frxAUDUSD"));
+    const hub = { subscribe, unsubscribe: vi.fn(async () => {}) } as unknown as MarketDataHub;
+    const pricer = new MarketPricer({} as DerivAPI, hub);
+
+    pricer.track(await storage.createMarket({ symbol: "frxAUDUSD", name: "AUD/USD", category: "forex" }));
+    await vi.advanceTimersByTimeAsync(0);
+    pricer.untrack("frxAUDUSD");
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(subscribe).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,189 @@
+import { EventEmitter } from 'events';
+import DerivAPI from './deriv-api';
+import type { MarketDataHub, MarketTick } from './market-data-hub';
+import { storage } from './storage';
+import { createPriceModel, getSimulationProfile, type Random } from './market-simulator';
+import type { Market, MarketDataSource } from '@shared/schema';
+
+export type MarketPriceUpdate = Pick<
+  Market,
+  'symbol' | 'currentPrice' | 'change' | 'changePercent' | 'high' | 'low' | 'sessionOpen' | 'sessionStart' | 'lastUpdate'
+>;
+
+interface PriceSource {
+  stop(): void;
+}
+
+const CONSUMER_ID = 'market-pricer';
+const REPLAY_TICKS = 1000;
+const MAX_REPLAY_GAP = 10000; // Long gaps in the recording (market closed) are shortened to this
+const RESUBSCRIBE_DELAY = 5000; // Doubles after each failed live subscription...
+const MAX_RESUBSCRIBE_DELAY = 60000; // ...up to this
+
+function startOfUtcDay(date: Date): Date {
+  const start = new Date(date);
+  start.setUTCHours(0, 0, 0, 0);
+  return start;
+}
+
+// Prices a market at a new quote, measuring change against the first quote of the UTC day
+export function priceMarket(market: Market, price: number, at: Date): MarketPriceUpdate {
+  const sessionStart = startOfUtcDay(at);
+  const sameSession = market.sessionOpen !== null && market.sessionStart?.getTime() === sessionStart.getTime();
+
+  const open = sameSession ? parseFloat(market.sessionOpen!) : price;
+  const high = sameSession && market.high ? Math.max(parseFloat(market.high), price) : price;
+  const low = sameSession && market.low ? Math.min(parseFloat(market.low), price) : price;
+  const change = price - open;
+
+  return {
+    symbol: market.symbol,
+    currentPrice: price.toFixed(5),
+    change: change.toFixed(5),
+    changePercent: open ? ((change / open) * 100).toFixed(2) : '0.00',
+    high: high.toFixed(5),
+    low: low.toFixed(5),
+    sessionOpen: open.toFixed(5),
+    sessionStart,
+    lastUpdate: at
+  };
+}
+
+/**
+ * Keeps every active market priced from its configured data source and emits
+ * each change as 'price', plus the underlying quote as a 'tick' shaped like
+ * Deriv's. Live markets follow Deriv ticks through the MarketDataHub, replay
+ * markets loop over recorded Deriv ticks, and only markets explicitly set to
+ * 'simulated' get generated prices (see market-simulator.ts).
+ */
+export class MarketPricer extends EventEmitter {
+  private markets = new Map<string, Market>();
+  private sources = new Map<string, PriceSource>();
+
+  constructor(private derivAPI: DerivAPI, private marketData: MarketDataHub, private random: Random = Math.random) {
+    super();
+  }
+
+  async start(): Promise<void> {
+    const markets = await storage.getAllMarkets();
+    markets.forEach((market) => this.track(market));
+  }
+
+  track(market: Market) {
+    this.untrack(market.symbol);
+    this.markets.set(market.symbol, market);
+    if (market.isActive === false) return;
+
+    const source = market.dataSource as MarketDataSource;
+    if (source === 'simulated') {
+      this.sources.set(market.symbol, this.simulate(market));
+    } else if (source === 'replay') {
+      this.sources.set(market.symbol, this.replay(market.symbol));
+    } else {
+      this.sources.set(market.symbol, this.follow(market.symbol));
+    }
+  }
+
+  // The market as last priced, or undefined when it isn't tracked
+  getMarket(symbol: string): Market | undefined {
+    return this.markets.get(symbol);
+  }
+
+  stop() {
+    Array.from(this.sources.keys()).forEach((symbol) => this.untrack(symbol));
+  }
+
+  untrack(symbol: string) {
+    this.sources.get(symbol)?.stop();
+    this.sources.delete(symbol);
+    this.markets.delete(symbol);
+  }
+
+  // Switches a market's source; the session restarts from the new source's first price
+  async setSource(symbol: string, dataSource: MarketDataSource): Promise<Market | undefined> {
+    await storage.updateMarket(symbol, { dataSource, sessionOpen: null, sessionStart: null });
+    const market = await storage.getMarket(symbol);
+    if (market) this.track(market);
+    return market;
+  }
+
+  private record(symbol: string, price: number, at: Date) {
+    const market = this.markets.get(symbol);
+    if (!market || !Number.isFinite(price)) return;
+
+    const update = priceMarket(market, price, at);
+    this.markets.set(symbol, { ...market, ...update });
+    storage.updateMarket(symbol, update).catch((error) => {
+      console.error(`Failed to store price for ${symbol}:`, error.message);
+    });
+    this.emit('price', update);
+    this.emit('tick', { symbol, quote: price, epoch: Math.floor(at.getTime() / 1000) } satisfies MarketTick);
+  }
+
+  // Keeps subscribing until Deriv answers, which at boot may take a while
+  private follow(symbol: string): PriceSource {
+    let timer: NodeJS.Timeout | undefined;
+    let stopped = false;
+    let failures = 0;
+
+    const subscribe = () => {
+      this.marketData
+        .subscribe(CONSUMER_ID, symbol, (tick: MarketTick) => this.record(symbol, tick.quote, new Date(tick.epoch * 1000)))
+        .catch((error) => {
+          if (stopped) return;
+          const delay = Math.min(MAX_RESUBSCRIBE_DELAY, RESUBSCRIBE_DELAY * 2 ** failures++);
+          console.error(`No live prices for ${symbol}, retrying in ${delay}ms:`, error.message);
+          timer = setTimeout(subscribe, delay);
+        });
+    };
+    subscribe();
+
+    return {
+      stop: () => {
+        stopped = true;
+        clearTimeout(timer);
+        this.marketData.unsubscribe(CONSUMER_ID, symbol).catch(() => {});
+      }
+    };
+  }
+
+  // Ticks from the market's simulation profile, continuing from its last price
+  private simulate(market: Market): PriceSource {
+    const profile = getSimulationProfile(market);
+    const model = createPriceModel(profile, this.random);
+
+    const timer = setInterval(() => {
+      const last = parseFloat(this.markets.get(market.symbol)?.currentPrice ?? '') || profile.initialPrice;
+      this.record(market.symbol, model.next(last, profile.tickInterval / 1000), new Date());
+    }, profile.tickInterval);
+
+    return { stop: () => clearInterval(timer) };
+  }
+
+  // Plays recent Deriv ticks back at their recorded pace, looping at the end
+  private replay(symbol: string): PriceSource {
+    let timer: NodeJS.Timeout | undefined;
+    let stopped = false;
+
+    this.derivAPI.getTickHistory(symbol, REPLAY_TICKS)
+      .then(({ prices, times }) => {
+        if (stopped || !prices.length) return;
+
+        const play = (index: number) => {
+          this.record(symbol, prices[index], new Date());
+          const next = (index + 1) % prices.length;
+          const gap = next === 0 ? 1000 : (times[next] - times[index]) * 1000;
+          timer = setTimeout(() => play(next), Math.min(Math.max(gap, 0), MAX_REPLAY_GAP));
+        };
+        play(0);
+      })
+      .catch((error) => console.error(`No recorded ticks to replay for ${symbol}:`, error.message));
+
+    return {
+      stop: () => {
+        stopped = true;
+        clearTimeout(timer);
+      }
+    };
+  }
+}
@@ -0,0 +1,146 @@
+import type { Market } from '@shared/schema';
+
+// Price models for markets whose data source is 'simulated'. Volatilities and
+// drifts are annualised over a 365-day year, since simulated markets, like
+// Deriv's synthetic indices, never close.
+
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+export type Random = () => number;
+
+interface ProfileBase {
+  tickInterval: number; // Milliseconds between ticks
+  initialPrice: number; // Used when the market has no price yet
+  pipSize: number; // Decimal places quotes are given to, like Deriv's pip_size
+}
+
+export type SimulationProfile = ProfileBase & (
+  | { model: 'gbm'; volatility: number; drift?: number }
+  // Geometric Brownian motion plus lognormal jumps arriving as a Poisson process
+  | { model: 'jump-diffusion'; volatility: number; drift?: number; jumpsPerYear: number; jumpMean: number; jumpStdDev: number }
+  // Crash/Boom: a spike against the trend on average once every `spikeEvery` ticks
+  | { model: 'crash' | 'boom'; volatility: number; spikeEvery: number; spikeSize: number }
+  // Step index: every tick moves exactly one step up or down
+  | { model: 'step'; stepSize: number }
+);
+
+export type SimulationModel = SimulationProfile['model'];
+
+export interface PriceModel {
+  next(price: number, seconds: number): number;
+}
+
+export type PriceModelFactory<P extends SimulationProfile = SimulationProfile> = (profile: P, random: Random) => PriceModel;
+
+// Standard normal draw (Box-Muller)
+function gaussian(random: Random): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function diffuse(price: number, years: number, volatility: number, drift: number, random: Random): number {
+  return price * Math.exp((drift - volatility ** 2 / 2) * years + volatility * Math.sqrt(years) * gaussian(random));
+}
+
+const modelFactories = new Map<SimulationModel, PriceModelFactory>();
+
+export function registerPriceModel<M extends SimulationModel>(
+  model: M,
+  factory: PriceModelFactory<Extract<SimulationProfile, { model: M }>>
+) {
+  // Looked up by profile.model, so the factory only ever sees its own model's profiles
+  modelFactories.set(model, (profile, random) => factory(profile as Extract<SimulationProfile, { model: M }>, random));
+}
+
+export function createPriceModel(profile: SimulationProfile, random: Random = Math.random): PriceModel {
+  const factory = modelFactories.get(profile.model);
+  if (!factory) throw new Error(`Unknown simulation model: ${profile.model}`);
+  return factory(profile, random);
+}
+
+registerPriceModel('gbm', (profile, random) => ({
+  next: (price, seconds) => diffuse(price, seconds / SECONDS_PER_YEAR, profile.volatility, profile.drift ?? 0, random)
+}));
+
+registerPriceModel('jump-diffusion', (profile, random) => ({
+  next: (price, seconds) => {
+    const years = seconds / SECONDS_PER_YEAR;
+    // Compensate the drift so jumps don't bias the expected price
+    const compensation = profile.jumpsPerYear * (Math.exp(profile.jumpMean + profile.jumpStdDev ** 2 / 2) - 1);
+    let next = diffuse(price, years, profile.volatility, (profile.drift ?? 0) - compensation, random);
+    if (random() < profile.jumpsPerYear * years) {
+      next *= Math.exp(profile.jumpMean + profile.jumpStdDev * gaussian(random));
+    }
+    return next;
+  }
+}));
+
+const spikeModel: PriceModelFactory<Extract<SimulationProfile, { model: 'crash' | 'boom' }>> = (profile, random) => {
+  const direction = profile.model === 'boom' ? 1 : -1;
+  // Between spikes the price trends the other way, roughly paying the spikes back
+  const trendPerTick = profile.spikeSize / profile.spikeEvery;
+
+  return {
+    next: (price, seconds) => {
+      if (random() < 1 / profile.spikeEvery) {
+        return price * (1 + direction * profile.spikeSize * (0.5 + random()));
+      }
+      return diffuse(price, seconds / SECONDS_PER_YEAR, profile.volatility, 0, random) * (1 - direction * trendPerTick);
+    }
+  };
+};
+
+registerPriceModel('crash', spikeModel);
+registerPriceModel('boom', spikeModel);
+
+registerPriceModel('step', (profile, random) => ({
+  next: (price) => price + (random() < 0.5 ? -profile.stepSize : profile.stepSize)
+}));
+
+// Volatility N indices: constant N% volatility, a tick every two seconds
+const volatilityIndex = (volatility: number, initialPrice: number, pipSize: number): SimulationProfile => ({
+  model: 'gbm', volatility, tickInterval: 2000, initialPrice, pipSize
+});
+
+const spikeIndex = (model: 'crash' | 'boom', spikeEvery: number, initialPrice: number): SimulationProfile => ({
+  model, volatility: 0.3, spikeEvery, spikeSize: 0.01, tickInterval: 1000, initialPrice, pipSize: 3
+});
+
+export const simulationProfiles: Record<string, SimulationProfile> = {
+  R_10: volatilityIndex(0.10, 6000, 3),
+  R_25: volatilityIndex(0.25, 2500, 3),
+  R_75: volatilityIndex(0.75, 50000, 4),
+  R_100: volatilityIndex(1.00, 1500, 2),
+  CRASH500: spikeIndex('crash', 500, 6500),
+  CRASH1000: spikeIndex('crash', 1000, 7000),
+  BOOM500: spikeIndex('boom', 500, 5000),
+  BOOM1000: spikeIndex('boom', 1000, 12000),
+  stpRNG: { model: 'step', stepSize: 0.1, tickInterval: 1000, initialPrice: 8000, pipSize: 1 },
+  'BTC/USD': {
+    model: 'jump-diffusion', volatility: 0.6, jumpsPerYear: 50, jumpMean: 0, jumpStdDev: 0.02,
+    tickInterval: 1000, initialPrice: 43000, pipSize: 2
+  },
+};
+
+const categoryProfiles: Record<string, SimulationProfile> = {
+  forex: { model: 'gbm', volatility: 0.08, tickInterval: 1000, initialPrice: 1, pipSize: 5 },
+  crypto: {
+    model: 'jump-diffusion', volatility: 0.8, jumpsPerYear: 50, jumpMean: 0, jumpStdDev: 0.03,
+    tickInterval: 1000, initialPrice: 100, pipSize: 2
+  },
+  indices: { model: 'gbm', volatility: 0.15, tickInterval: 1000, initialPrice: 1000, pipSize: 2 },
+};
+
+// Annualised volatility a profile implies at a price, for pricing contracts on it
+export function impliedVolatility(profile: SimulationProfile, price: number): number {
+  if (profile.model === 'step') {
+    const ticksPerYear = SECONDS_PER_YEAR / (profile.tickInterval / 1000);
+    return (profile.stepSize / price) * Math.sqrt(ticksPerYear);
+  }
+  return profile.volatility;
+}
+
+export function getSimulationProfile(market: Pick<Market, 'symbol' | 'category'>): SimulationProfile {
+  return simulationProfiles[market.symbol] ?? categoryProfiles[market.category] ?? categoryProfiles.forex;
+}
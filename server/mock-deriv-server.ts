@@ -0,0 +1,624 @@
+import { EventEmitter } from 'events';
+import { pathToFileURL } from 'url';
+import type { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket } from 'ws';
+import { createPriceModel, simulationProfiles, type PriceModel, type SimulationProfile } from './market-simulator';
+import type { DerivError } from './deriv-messages';
+
+/**
+ * A local stand-in for the Deriv v3 WebSocket API, for running the app and
+ * driving DerivAPI without a network. Point DERIV_WS_URL (or DerivAPIConfig.wsUrl)
+ * at url. Prices come from the market simulator; rise/fall contracts settle at
+ * expiry and multipliers stay open until sold. Scenarios such as dropped
+ * connections and rejected buys are scripted through the public methods.
+ *
+ *   npx tsx server/mock-deriv-server.ts   (listens on MOCK_DERIV_PORT, default 8765)
+ */
+
+type Request = Record<string, any> & { req_id?: number };
+
+export interface MockAccount {
+  loginid: string;
+  balance: number;
+  currency: string;
+}
+
+export interface MockSymbol {
+  symbol: string;
+  display_name: string;
+  market: string;
+  submarket: string;
+  profile: SimulationProfile;
+}
+
+export interface MockDerivServerOptions {
+  accounts?: Record<string, MockAccount>; // By API token
+  symbols?: MockSymbol[];
+  tickInterval?: number; // Overrides every symbol's tick rate, in milliseconds
+  random?: () => number;
+}
+
+interface MockContract {
+  id: number;
+  token: string;
+  symbol: string;
+  contractType: string;
+  buyPrice: number;
+  payout: number;
+  multiplier?: number;
+  entrySpot: number;
+  currentSpot: number;
+  startTime: number;
+  expiryTime?: number; // Epoch seconds, for time-based durations
+  ticksLeft?: number;  // For tick durations
+  status: 'open' | 'won' | 'lost' | 'sold';
+  sellPrice?: number;
+  sellTime?: number;
+}
+
+interface MockProposal {
+  symbol: string;
+  parameters: Request;
+  askPrice: number;
+  payout: number;
+}
+
+interface Connection {
+  socket: WebSocket;
+  token?: string;
+  streams: Map<string, { kind: string; key: string; request: Request }>;
+}
+
+const PAYOUT_RATIO = 1.95;
+const durationSeconds: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+const forex = (symbol: string, display_name: string, initialPrice: number, pipSize = 5): MockSymbol => ({
+  symbol, display_name, market: 'forex', submarket: 'major_pairs',
+  profile: { model: 'gbm', volatility: 0.08, tickInterval: 1000, initialPrice, pipSize }
+});
+
+const synthetic = (symbol: string, display_name: string): MockSymbol => ({
+  symbol, display_name, market: 'synthetic_index', submarket: 'random_index',
+  profile: simulationProfiles[symbol]
+});
+
+export const defaultMockSymbols: MockSymbol[] = [
+  forex('frxEURUSD', 'EUR/USD', 1.085),
+  forex('frxGBPUSD', 'GBP/USD', 1.278),
+  forex('frxUSDJPY', 'USD/JPY', 149.5, 3),
+  forex('frxAUDUSD', 'AUD/USD', 0.655),
+  synthetic('R_10', 'Volatility 10 Index'),
+  synthetic('R_100', 'Volatility 100 Index'),
+  synthetic('CRASH1000', 'Crash 1000 Index'),
+  synthetic('BOOM1000', 'Boom 1000 Index'),
+  synthetic('stpRNG', 'Step Index'),
+];
+
+export class MockDerivServer extends EventEmitter {
+  readonly accounts: Record<string, MockAccount>;
+  readonly requests: Request[] = []; // Every request received, for assertions
+  private symbols: Map<string, MockSymbol & { model: PriceModel; price: number; history: Array<[number, number]> }>;
+  private options: MockDerivServerOptions;
+  private wss?: WebSocketServer;
+  private connections = new Set<Connection>();
+  private contracts = new Map<number, MockContract>();
+  private proposals = new Map<string, MockProposal>();
+  private timers: NodeJS.Timeout[] = [];
+  private buyRejections: DerivError[] = [];
+  private silent = false;
+  private lastId = 1000;
+
+  constructor(options: MockDerivServerOptions = {}) {
+    super();
+    this.options = options;
+    this.accounts = options.accounts ?? { 'mock-token': { loginid: 'VRTC1000001', balance: 10000, currency: 'USD' } };
+    this.symbols = new Map((options.symbols ?? defaultMockSymbols).map((symbol) => [
+      symbol.symbol,
+      {
+        ...symbol,
+        model: createPriceModel(symbol.profile, options.random),
+        price: symbol.profile.initialPrice,
+        history: []
+      }
+    ]));
+  }
+
+  get url(): string {
+    const address = this.wss?.address() as AddressInfo | undefined;
+    if (!address) throw new Error('Mock Deriv server is not listening');
+    return `ws://127.0.0.1:${address.port}/websockets/v3`;
+  }
+
+  async start(port = 0): Promise<string> {
+    this.wss = new WebSocketServer({ port, host: '127.0.0.1' });
+    await new Promise<void>((resolve, reject) => {
+      this.wss!.once('listening', resolve);
+      this.wss!.once('error', reject);
+    });
+
+    this.wss.on('connection', (socket) => this.handleConnection(socket));
+
+    this.symbols.forEach((entry) => {
+      const interval = this.options.tickInterval ?? entry.profile.tickInterval;
+      this.timers.push(setInterval(() => this.tick(entry.symbol), interval));
+    });
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    this.timers.forEach(clearInterval);
+    this.timers = [];
+    this.connections.forEach((connection) => connection.socket.terminate());
+    this.connections.clear();
+    await new Promise<void>((resolve) => (this.wss ? this.wss.close(() => resolve()) : resolve()));
+    this.wss = undefined;
+  }
+
+  // Scenarios
+
+  // Cuts every open socket, as a network outage would
+  dropConnections() {
+    this.connections.forEach((connection) => connection.socket.terminate());
+  }
+
+  // Stops answering anything, pings included, until resumed
+  setSilent(silent: boolean) {
+    this.silent = silent;
+  }
+
+  // The next buy fails with this error
+  rejectNextBuy(error: DerivError = { code: 'ContractBuyValidationError', message: 'Trading is not offered for this duration.' }) {
+    this.buyRejections.push(error);
+  }
+
+  // Moves a symbol to an exact price and streams it like any other tick
+  pushTick(symbol: string, quote: number) {
+    const entry = this.symbols.get(symbol);
+    if (!entry) throw new Error(`Unknown mock symbol ${symbol}`);
+    entry.price = quote;
+    this.publishTick(symbol);
+  }
+
+  getContract(contractId: number): MockContract | undefined {
+    return this.contracts.get(contractId);
+  }
+
+  // Connection handling
+
+  private handleConnection(socket: WebSocket) {
+    const connection: Connection = { socket, streams: new Map() };
+    this.connections.add(connection);
+    this.emit('connection');
+
+    socket.on('message', (raw) => {
+      if (this.silent) return;
+      let request: Request;
+      try {
+        request = JSON.parse(raw.toString());
+      } catch {
+        return this.send(connection, {}, 'error', undefined, { code: 'InputValidationFailed', message: 'Malformed JSON' });
+      }
+      this.requests.push(request);
+      this.emit('request', request);
+      this.handleRequest(connection, request);
+    });
+
+    socket.on('close', () => this.connections.delete(connection));
+  }
+
+  private send(connection: Connection, request: Request, msgType: string, body?: Record<string, unknown>, error?: DerivError) {
+    if (connection.socket.readyState !== WebSocket.OPEN) return;
+    const message = {
+      msg_type: msgType,
+      echo_req: request,
+      ...(request.req_id !== undefined ? { req_id: request.req_id } : {}),
+      ...(error ? { error } : body)
+    };
+    connection.socket.send(JSON.stringify(message));
+  }
+
+  private fail(connection: Connection, request: Request, msgType: string, code: string, message: string) {
+    this.send(connection, request, msgType, undefined, { code, message });
+  }
+
+  private openStream(connection: Connection, kind: string, key: string, request: Request): string {
+    const id = `mock-${kind}-${++this.lastId}`;
+    connection.streams.set(id, { kind, key, request });
+    return id;
+  }
+
+  private handleRequest(connection: Connection, request: Request) {
+    if ('ping' in request) return this.send(connection, request, 'ping', { ping: 'pong' });
+    if ('authorize' in request) return this.authorize(connection, request);
+    if ('active_symbols' in request) return this.activeSymbols(connection, request);
+    if ('contracts_for' in request) return this.contractsFor(connection, request);
+    if ('ticks' in request) return this.ticks(connection, request);
+    if ('ticks_history' in request) return this.ticksHistory(connection, request);
+    if ('forget' in request) return this.forget(connection, request);
+    if ('proposal' in request) return this.proposal(connection, request);
+    if ('proposal_open_contract' in request) return this.openContract(connection, request);
+
+    // Everything below needs an authorized account
+    const account = connection.token ? this.accounts[connection.token] : undefined;
+    const msgType = Object.keys(request).find((key) => key !== 'req_id' && key !== 'subscribe') ?? 'error';
+    if (!account) {
+      return this.fail(connection, request, msgType, 'AuthorizationRequired', 'Please log in.');
+    }
+
+    if ('balance' in request) return this.send(connection, request, 'balance', { balance: { balance: account.balance, currency: account.currency, loginid: account.loginid } });
+    if ('buy' in request) return this.buy(connection, request, account);
+    if ('sell' in request) return this.sell(connection, request, account);
+    if ('contract_update' in request) return this.contractUpdate(connection, request);
+    if ('portfolio' in request) return this.portfolio(connection, request);
+
+    this.fail(connection, request, msgType, 'UnrecognisedRequest', 'Unrecognised request.');
+  }
+
+  private authorize(connection: Connection, request: Request) {
+    const account = this.accounts[request.authorize];
+    if (!account) {
+      return this.fail(connection, request, 'authorize', 'InvalidToken', 'The token is invalid.');
+    }
+    connection.token = request.authorize;
+    this.send(connection, request, 'authorize', {
+      authorize: { loginid: account.loginid, balance: account.balance, currency: account.currency, is_virtual: 1, scopes: ['read', 'trade'] }
+    });
+  }
+
+  private activeSymbols(connection: Connection, request: Request) {
+    this.send(connection, request, 'active_symbols', {
+      active_symbols: Array.from(this.symbols.values()).map(({ symbol, display_name, market, submarket, profile }) => ({
+        symbol, display_name, market, submarket, exchange_is_open: 1, is_trading_suspended: 0, pip: 10 ** -profile.pipSize
+      }))
+    });
+  }
+
+  private contractsFor(connection: Connection, request: Request) {
+    if (!this.symbols.has(request.contracts_for)) {
+      return this.fail(connection, request, 'contracts_for', 'InvalidSymbol', 'Symbol is not offered.');
+    }
+    const riseFall = { contract_category: 'callput', barriers: 0, min_contract_duration: '1t', max_contract_duration: '365d', expiry_type: 'tick' };
+    this.send(connection, request, 'contracts_for', {
+      contracts_for: {
+        available: [
+          { ...riseFall, contract_type: 'CALL', contract_display: 'Higher' },
+          { ...riseFall, contract_type: 'PUT', contract_display: 'Lower' },
+          { contract_type: 'MULTUP', contract_category: 'multiplier', barriers: 0, multiplier_range: [10, 20, 50, 100] },
+          { contract_type: 'MULTDOWN', contract_category: 'multiplier', barriers: 0, multiplier_range: [10, 20, 50, 100] }
+        ]
+      }
+    });
+  }
+
+  private ticks(connection: Connection, request: Request) {
+    const entry = this.symbols.get(request.ticks);
+    if (!entry) return this.fail(connection, request, 'tick', 'MarketIsClosed', 'This market is presently closed.');
+
+    const id = request.subscribe ? this.openStream(connection, 'tick', entry.symbol, request) : undefined;
+    this.send(connection, request, 'tick', {
+      tick: this.tickBody(entry.symbol),
+      ...(id ? { subscription: { id } } : {})
+    });
+  }
+
+  private ticksHistory(connection: Connection, request: Request) {
+    const entry = this.symbols.get(request.ticks_history);
+    if (!entry) return this.fail(connection, request, 'history', 'InvalidSymbol', 'Symbol is not offered.');
+
+    const count = Math.min(request.count ?? 1000, 5000);
+    if (request.style === 'candles') {
+      const granularity = request.granularity ?? 60;
+      const id = request.subscribe ? this.openStream(connection, 'ohlc', `${entry.symbol}:${granularity}`, request) : undefined;
+      return this.send(connection, request, 'candles', {
+        candles: this.candles(entry.symbol, granularity).slice(-count),
+        ...(id ? { subscription: { id } } : {})
+      });
+    }
+
+    const history = entry.history.slice(-count);
+    this.send(connection, request, 'history', {
+      history: { prices: history.map(([, price]) => price), times: history.map(([epoch]) => epoch) }
+    });
+  }
+
+  private forget(connection: Connection, request: Request) {
+    this.send(connection, request, 'forget', { forget: connection.streams.delete(request.forget) ? 1 : 0 });
+  }
+
+  private priceProposal(request: Request): MockProposal | string {
+    const entry = this.symbols.get(request.symbol);
+    if (!entry) return 'Symbol is not offered.';
+    if (!(request.amount > 0)) return 'Please enter a stake amount.';
+    if (request.contract_type === 'MULTUP' || request.contract_type === 'MULTDOWN') {
+      if (!request.multiplier) return 'Multiplier is required.';
+      return { symbol: entry.symbol, parameters: request, askPrice: request.amount, payout: 0 };
+    }
+    if (request.contract_type !== 'CALL' && request.contract_type !== 'PUT') {
+      return `${request.contract_type} is not offered by the mock server.`;
+    }
+    if (!request.duration && !request.date_expiry) return 'Please enter a duration.';
+
+    const stake = request.basis === 'payout' ? request.amount / PAYOUT_RATIO : request.amount;
+    return { symbol: entry.symbol, parameters: request, askPrice: round(stake), payout: round(stake * PAYOUT_RATIO) };
+  }
+
+  private proposalBody(id: string, proposal: MockProposal) {
+    const spot = this.symbols.get(proposal.symbol)!.price;
+    return {
+      id,
+      ask_price: proposal.askPrice,
+      payout: proposal.payout,
+      spot,
+      spot_time: now(),
+      longcode: `Mock ${proposal.parameters.contract_type} on ${proposal.symbol}.`,
+      display_value: proposal.askPrice.toFixed(2)
+    };
+  }
+
+  private proposal(connection: Connection, request: Request) {
+    const proposal = this.priceProposal(request);
+    if (typeof proposal === 'string') {
+      return this.fail(connection, request, 'proposal', 'ContractBuyValidationError', proposal);
+    }
+
+    const id = `mock-proposal-${++this.lastId}`;
+    this.proposals.set(id, proposal);
+    if (request.subscribe) connection.streams.set(id, { kind: 'proposal', key: proposal.symbol, request });
+    this.send(connection, request, 'proposal', {
+      proposal: this.proposalBody(id, proposal),
+      ...(request.subscribe ? { subscription: { id } } : {})
+    });
+  }
+
+  private buy(connection: Connection, request: Request, account: MockAccount) {
+    const rejection = this.buyRejections.shift();
+    if (rejection) return this.send(connection, request, 'buy', undefined, rejection);
+
+    const proposal = request.buy === 1 ? this.priceProposal(request.parameters ?? {}) : this.proposals.get(String(request.buy));
+    if (!proposal) return this.fail(connection, request, 'buy', 'InvalidContractProposal', 'Proposal has expired.');
+    if (typeof proposal === 'string') return this.fail(connection, request, 'buy', 'ContractBuyValidationError', proposal);
+    if (proposal.askPrice > request.price) {
+      return this.fail(connection, request, 'buy', 'PriceMoved', 'The underlying market has moved too much since you priced the contract.');
+    }
+    if (proposal.askPrice > account.balance) {
+      return this.fail(connection, request, 'buy', 'InsufficientBalance', 'Your account balance is insufficient for this transaction.');
+    }
+
+    const { parameters } = proposal;
+    const spot = this.symbols.get(proposal.symbol)!.price;
+    const start = now();
+    const contract: MockContract = {
+      id: ++this.lastId,
+      token: connection.token!,
+      symbol: proposal.symbol,
+      contractType: parameters.contract_type,
+      buyPrice: proposal.askPrice,
+      payout: proposal.payout,
+      multiplier: parameters.multiplier,
+      entrySpot: spot,
+      currentSpot: spot,
+      startTime: start,
+      status: 'open'
+    };
+    if (parameters.date_expiry) {
+      contract.expiryTime = parameters.date_expiry;
+    } else if (parameters.duration_unit === 't') {
+      contract.ticksLeft = parameters.duration;
+    } else if (parameters.duration) {
+      contract.expiryTime = start + parameters.duration * (durationSeconds[parameters.duration_unit] ?? 1);
+    }
+    this.contracts.set(contract.id, contract);
+    account.balance = round(account.balance - contract.buyPrice);
+
+    this.send(connection, request, 'buy', {
+      buy: {
+        contract_id: contract.id,
+        transaction_id: ++this.lastId,
+        buy_price: contract.buyPrice,
+        payout: contract.payout,
+        longcode: `Mock ${contract.contractType} on ${contract.symbol}.`,
+        start_time: start,
+        purchase_time: start,
+        balance_after: account.balance
+      }
+    });
+  }
+
+  private sell(connection: Connection, request: Request, account: MockAccount) {
+    const contract = this.contracts.get(request.sell);
+    if (!contract || contract.token !== connection.token) {
+      return this.fail(connection, request, 'sell', 'InvalidSellContractProposal', 'This contract was not found among your open positions.');
+    }
+    if (contract.status !== 'open') {
+      return this.fail(connection, request, 'sell', 'ContractAlreadySold', 'This contract has been sold.');
+    }
+
+    const bid = this.bidPrice(contract);
+    if (bid < (request.price ?? 0)) {
+      return this.fail(connection, request, 'sell', 'PriceMoved', 'The contract is worth less than your minimum price.');
+    }
+    this.close(contract, 'sold', bid);
+    this.send(connection, request, 'sell', {
+      sell: { contract_id: contract.id, transaction_id: ++this.lastId, sold_for: bid, balance_after: account.balance }
+    });
+  }
+
+  private contractUpdate(connection: Connection, request: Request) {
+    const contract = this.contracts.get(request.contract_id);
+    if (!contract?.multiplier || contract.status !== 'open') {
+      return this.fail(connection, request, 'contract_update', 'ContractUpdateFailure', 'Only open multipliers can be updated.');
+    }
+    const toValue = (amount?: number | null) => amount ? { order_amount: amount, value: String(amount) } : { order_amount: null, value: null };
+    this.send(connection, request, 'contract_update', {
+      contract_update: { stop_loss: toValue(request.limit_order?.stop_loss), take_profit: toValue(request.limit_order?.take_profit) }
+    });
+  }
+
+  private portfolio(connection: Connection, request: Request) {
+    const contracts = Array.from(this.contracts.values())
+      .filter((contract) => contract.token === connection.token && contract.status === 'open')
+      .map((contract) => ({
+        contract_id: contract.id,
+        contract_type: contract.contractType,
+        symbol: contract.symbol,
+        buy_price: contract.buyPrice,
+        payout: contract.payout,
+        date_start: contract.startTime,
+        expiry_time: contract.expiryTime,
+        transaction_id: contract.id
+      }));
+    this.send(connection, request, 'portfolio', { portfolio: { contracts } });
+  }
+
+  private openContract(connection: Connection, request: Request) {
+    const contract = request.contract_id ? this.contracts.get(request.contract_id) : undefined;
+    if (!contract || contract.token !== connection.token) {
+      return this.send(connection, request, 'proposal_open_contract', { proposal_open_contract: {} });
+    }
+
+    const id = request.subscribe && contract.status === 'open'
+      ? this.openStream(connection, 'proposal_open_contract', String(contract.id), request)
+      : undefined;
+    this.send(connection, request, 'proposal_open_contract', {
+      proposal_open_contract: this.contractBody(contract),
+      ...(id ? { subscription: { id } } : {})
+    });
+  }
+
+  // Pricing and settlement
+
+  private bidPrice(contract: MockContract): number {
+    if (contract.status !== 'open') return contract.sellPrice ?? 0;
+    const move = contract.currentSpot / contract.entrySpot - 1;
+    if (contract.multiplier) {
+      const direction = contract.contractType === 'MULTDOWN' ? -1 : 1;
+      return round(Math.max(contract.buyPrice * (1 + direction * move * contract.multiplier), 0));
+    }
+    const inTheMoney = contract.contractType === 'CALL' ? move > 0 : move < 0;
+    return round(inTheMoney ? contract.payout * 0.9 : contract.payout * 0.1);
+  }
+
+  private contractBody(contract: MockContract) {
+    const bid = this.bidPrice(contract);
+    const finished = contract.status !== 'open';
+    return {
+      contract_id: contract.id,
+      contract_type: contract.contractType,
+      underlying: contract.symbol,
+      status: contract.status,
+      is_sold: finished ? 1 : 0,
+      is_expired: contract.status === 'won' || contract.status === 'lost' ? 1 : 0,
+      is_valid_to_sell: finished ? 0 : 1,
+      buy_price: contract.buyPrice,
+      bid_price: bid,
+      sell_price: contract.sellPrice,
+      payout: contract.payout || undefined,
+      profit: round((finished ? contract.sellPrice ?? 0 : bid) - contract.buyPrice),
+      current_spot: contract.currentSpot,
+      entry_spot: contract.entrySpot,
+      exit_tick: finished ? contract.currentSpot : undefined,
+      date_start: contract.startTime,
+      date_expiry: contract.expiryTime,
+      sell_time: contract.sellTime ?? null,
+      multiplier: contract.multiplier
+    };
+  }
+
+  private close(contract: MockContract, status: 'won' | 'lost' | 'sold', sellPrice: number) {
+    contract.status = status;
+    contract.sellPrice = round(sellPrice);
+    contract.sellTime = now();
+    const account = this.accounts[contract.token];
+    if (account) account.balance = round(account.balance + contract.sellPrice);
+  }
+
+  private tick(symbol: string) {
+    const entry = this.symbols.get(symbol)!;
+    entry.price = entry.model.next(entry.price, (this.options.tickInterval ?? entry.profile.tickInterval) / 1000);
+    this.publishTick(symbol);
+  }
+
+  private publishTick(symbol: string) {
+    const entry = this.symbols.get(symbol)!;
+    const epoch = now();
+    entry.history.push([epoch, round(entry.price, 5)]);
+    if (entry.history.length > 5000) entry.history.shift();
+
+    this.contracts.forEach((contract) => {
+      if (contract.symbol !== symbol || contract.status !== 'open') return;
+      contract.currentSpot = round(entry.price, 5);
+      if (contract.ticksLeft !== undefined) contract.ticksLeft--;
+
+      const expired = contract.ticksLeft !== undefined ? contract.ticksLeft <= 0 : contract.expiryTime !== undefined && epoch >= contract.expiryTime;
+      if (expired && !contract.multiplier) {
+        const won = contract.contractType === 'CALL' ? contract.currentSpot > contract.entrySpot : contract.currentSpot < contract.entrySpot;
+        this.close(contract, won ? 'won' : 'lost', won ? contract.payout : 0);
+      }
+    });
+
+    this.connections.forEach((connection) => {
+      connection.streams.forEach((stream, id) => {
+        if (stream.kind === 'tick' && stream.key === symbol) {
+          this.send(connection, stream.request, 'tick', { tick: this.tickBody(symbol), subscription: { id } });
+        } else if (stream.kind === 'ohlc' && stream.key.startsWith(`${symbol}:`)) {
+          const granularity = Number(stream.key.split(':')[1]);
+          const candle = this.candles(symbol, granularity).slice(-1)[0];
+          this.send(connection, stream.request, 'ohlc', {
+            ohlc: { symbol, granularity, open_time: candle.epoch, epoch, open: candle.open, high: candle.high, low: candle.low, close: candle.close },
+            subscription: { id }
+          });
+        } else if (stream.kind === 'proposal' && stream.key === symbol) {
+          this.send(connection, stream.request, 'proposal', { proposal: this.proposalBody(id, this.proposals.get(id)!), subscription: { id } });
+        } else if (stream.kind === 'proposal_open_contract') {
+          const contract = this.contracts.get(Number(stream.key));
+          if (!contract || contract.symbol !== symbol) return;
+          this.send(connection, stream.request, 'proposal_open_contract', { proposal_open_contract: this.contractBody(contract), subscription: { id } });
+          if (contract.status !== 'open') connection.streams.delete(id);
+        }
+      });
+    });
+  }
+
+  private tickBody(symbol: string) {
+    const { price, profile } = this.symbols.get(symbol)!;
+    const quote = round(price, profile.pipSize);
+    return { symbol, quote, epoch: now(), bid: quote, ask: quote, pip_size: profile.pipSize };
+  }
+
+  private candles(symbol: string, granularity: number) {
+    const candles: Array<{ epoch: number; open: number; high: number; low: number; close: number }> = [];
+    this.symbols.get(symbol)!.history.forEach(([epoch, price]) => {
+      const open = epoch - (epoch % granularity);
+      const last = candles[candles.length - 1];
+      if (last?.epoch === open) {
+        last.high = Math.max(last.high, price);
+        last.low = Math.min(last.low, price);
+        last.close = price;
+      } else {
+        candles.push({ epoch: open, open: price, high: price, low: price, close: price });
+      }
+    });
+    if (!candles.length) {
+      const price = round(this.symbols.get(symbol)!.price, 5);
+      candles.push({ epoch: now() - (now() % granularity), open: price, high: price, low: price, close: price });
+    }
+    return candles;
+  }
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const server = new MockDerivServer();
+  server.start(Number(process.env.MOCK_DERIV_PORT) || 8765).then((url) => {
+    console.log(`Mock Deriv server listening on ${url}`);
+    console.log(`Start the app with DERIV_WS_URL=${url} DERIV_API_TOKEN=mock-token`);
+  });
+}
@@ -0,0 +1,84 @@
+import { EventEmitter } from "events";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MarketPricer } from "./market-pricer";
+import type { MarketTick } from "./market-data-hub";
+
+// Without DATABASE_URL the engine runs on MemStorage, which never touches the pool
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.hoisted(() => {
+  delete process.env.DATABASE_URL;
+});
+
+const { PaperTradingEngine } = await import("./paper-trading");
+const { ledger } = await import("./ledger");
+const { storage } = await import("./storage");
+
+const SYMBOL = "R_100";
+const ENTRY = 1000;
+
+describe("PaperTradingEngine", () => {
+  let pricer: EventEmitter;
+  let engine: InstanceType<typeof PaperTradingEngine>;
+  let userId: string;
+  let lastUser = 0;
+
+  const tick = (quote: number) => pricer.emit("tick", { symbol: SYMBOL, quote, epoch: Math.floor(Date.now() / 1000) } satisfies MarketTick);
+
+  const closed = () => new Promise<{ tradeId: number; payout: string; profit: string }>((resolve) => engine.once("trade_closed", resolve));
+
+  beforeEach(async () => {
+    pricer = new EventEmitter();
+    engine = new PaperTradingEngine(pricer as MarketPricer);
+    userId = `paper-user-${++lastUser}`;
+    await storage.upsertUser({ id: userId, email: `${userId}@example.com` });
+    await ledger.deposit(userId, "100.00", "Test balance");
+    if (!(await storage.getMarket(SYMBOL))) {
+      await storage.createMarket({ symbol: SYMBOL, name: "Volatility 100 Index", category: "synthetic", currentPrice: ENTRY.toFixed(5) });
+    }
+    await storage.updateMarket(SYMBOL, { currentPrice: ENTRY.toFixed(5) });
+  });
+
+  const multiplier = (limits: { stopLoss?: string; takeProfit?: string }) => engine.place({
+    userId,
+    symbol: SYMBOL,
+    contractType: "Multipliers",
+    tradeType: "MULTUP",
+    stake: "10.00",
+    multiplier: 100,
+    ...limits,
+  });
+
+  it("settles a multiplier at take profit for what it's worth", async () => {
+    const trade = await multiplier({ takeProfit: "5.00" });
+    const closure = closed();
+
+    tick(ENTRY * 1.01); // Up 1% at x100: the stake doubles
+    expect(await closure).toMatchObject({ tradeId: trade.id, payout: "20.00", profit: "10.00" });
+    expect(await ledger.getBalance(userId)).toBe("110.00");
+  });
+
+  it("settles a multiplier at stop loss for what's left of the stake", async () => {
+    const trade = await multiplier({ stopLoss: "3.00" });
+    const closure = closed();
+
+    tick(ENTRY * 0.995); // Down 0.5% at x100: half the stake is gone
+    expect(await closure).toMatchObject({ tradeId: trade.id, payout: "5.00", profit: "-5.00" });
+    expect(await ledger.getBalance(userId)).toBe("95.00");
+  });
+
+  it("pays the fixed payout on a winning tick contract", async () => {
+    const trade = await engine.place({
+      userId,
+      symbol: SYMBOL,
+      contractType: "Rise/Fall",
+      tradeType: "CALL",
+      stake: "10.00",
+      duration: 1,
+      durationType: "ticks",
+    });
+    const closure = closed();
+
+    tick(ENTRY + 1);
+    expect(await closure).toMatchObject({ tradeId: trade.id, payout: trade.payout });
+  });
+});
@@ -0,0 +1,426 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { storage } from './storage';
+import { ledger } from './ledger';
+import type { MarketPricer } from './market-pricer';
+import type { MarketTick } from './market-data-hub';
+import type { TradeClosure, TradeUpdate } from './contract-tracker';
+import { getSimulationProfile, impliedVolatility, SECONDS_PER_YEAR } from './market-simulator';
+import { getContractCategory, type DurationType } from '@shared/contracts';
+import type { InsertTrade, Market, Proposal, Trade } from '@shared/schema';
+
+// Paper trading: contracts are priced and settled here against the user's
+// ledger wallet instead of a Deriv account. A contract pays out stake * (1 - HOUSE_EDGE) / p,
+// where p is its chance of winning under the market's simulation profile.
+
+export const PAPER_STARTING_BALANCE = '10000.00'; // What a new account holds, like a Deriv demo account
+
+// Without a Deriv account every trade is a paper trade
+export function isPaperTrading(): boolean {
+  return !process.env.DERIV_API_TOKEN;
+}
+
+const HOUSE_EDGE = 0.05;
+const MIN_PROBABILITY = 0.05; // Keeps long shots from paying absurd multiples
+const MAX_PROBABILITY = 0.95;
+
+const durationSeconds: Record<DurationType, number> = {
+  ticks: 0,
+  seconds: 1,
+  minutes: 60,
+  hours: 60 * 60,
+  days: 24 * 60 * 60
+};
+
+export type PaperContractRequest = Pick<
+  InsertTrade,
+  | 'symbol' | 'tradeType' | 'contractType' | 'stake' | 'duration' | 'durationType' | 'dateExpiry'
+  | 'barrier' | 'barrier2' | 'multiplier' | 'stopLoss' | 'takeProfit' | 'dealCancellation'
+>;
+
+export class PaperTradingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaperTradingError';
+  }
+}
+
+interface PaperPosition {
+  trade: Trade;
+  entry: number;
+  spot: number;
+  barrier?: number; // Absolute price; relative barriers are resolved at entry
+  barrier2?: number;
+  expiresAt?: number; // Epoch milliseconds, for time-based contracts
+  ticksLeft?: number; // For tick contracts
+  quotes: number[]; // Every quote since entry, for Asian averages
+  volatility: number;
+  tickSeconds: number;
+  pipSize: number;
+}
+
+type Outcome = { won: boolean } | null; // null: not decided yet
+
+// Abramowitz-Stegun approximation of the standard normal CDF
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const density = Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return x >= 0 ? 1 - tail : tail;
+}
+
+// Chance a driftless GBM ends above the barrier
+function probabilityAbove(spot: number, barrier: number, volatility: number, years: number): number {
+  if (years <= 0 || volatility <= 0) return spot > barrier ? 1 : 0;
+  const deviation = volatility * Math.sqrt(years);
+  return normalCdf((Math.log(spot / barrier) - deviation ** 2 / 2) / deviation);
+}
+
+// Chance the path touches the barrier before expiry (reflection principle)
+function probabilityTouch(spot: number, barrier: number, volatility: number, years: number): number {
+  if (years <= 0 || volatility <= 0) return 0;
+  return Math.min(1, 2 * normalCdf(-Math.abs(Math.log(barrier / spot)) / (volatility * Math.sqrt(years))));
+}
+
+function resolveBarrier(barrier: string | null | undefined, spot: number): number | undefined {
+  if (!barrier) return undefined;
+  return /^[+-]/.test(barrier) ? spot + parseFloat(barrier) : parseFloat(barrier);
+}
+
+// Taken from the quote as quoted, so 1.2340 at five decimals ends in 0, not 4
+function lastDigit(quote: number, pipSize: number): number {
+  return Number(quote.toFixed(pipSize).slice(-1));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Runs paper contracts on the MarketPricer's tick stream, whatever the
+ * market's data source. Emits 'trade_updated' and 'trade_closed' with the
+ * same payloads as the ContractTracker, so browsers can't tell the two apart.
+ */
+export class PaperTradingEngine extends EventEmitter {
+  private positions = new Map<number, PaperPosition>();
+
+  constructor(private pricer: MarketPricer) {
+    super();
+    pricer.on('tick', (tick: MarketTick) => this.handleTick(tick));
+  }
+
+  // Picks up paper trades left open by the last run
+  async restore(): Promise<void> {
+    const trades = (await storage.getOpenTrades()).filter((trade) => trade.paper);
+    for (const trade of trades) {
+      const market = await storage.getMarket(trade.symbol);
+      if (market) this.track(trade, market);
+    }
+  }
+
+  async quote(request: PaperContractRequest): Promise<Proposal> {
+    const market = await this.getPricedMarket(request.symbol);
+    const spot = parseFloat(market.currentPrice!);
+    const stake = parseFloat(request.stake);
+    const payout = this.price(request, market, spot, stake);
+    const category = getContractCategory(request.contractType);
+    const label = category?.labels[category.tradeTypes.indexOf(request.tradeType as never)] ?? request.tradeType;
+
+    return {
+      id: `paper-${randomUUID()}`,
+      askPrice: stake,
+      payout: payout ?? 0,
+      longcode: `Paper ${label} on ${market.name}`,
+      spot
+    };
+  }
+
+  async place(request: PaperContractRequest & { userId: string }): Promise<Trade> {
+    if (request.dealCancellation) {
+      throw new PaperTradingError('Deal cancellation is not available on paper trades');
+    }
+
+    const market = await this.getPricedMarket(request.symbol);
+    const spot = parseFloat(market.currentPrice!);
+    const stake = parseFloat(request.stake);
+    const payout = this.price(request, market, spot, stake);
+
+    const reservation = await ledger.reserveStake(request.userId, request.stake, `Paper ${request.tradeType} on ${request.symbol}`);
+    let trade: Trade;
+    try {
+      trade = await storage.createTrade({
+        ...request,
+        status: 'open',
+        paper: true,
+        derivTradeId: null,
+        entryPrice: market.currentPrice,
+        currentSpot: market.currentPrice,
+        payout: payout === null ? null : payout.toFixed(2),
+        bidPrice: request.stake
+      });
+    } catch (error) {
+      await ledger.refundStake(reservation, request.stake);
+      throw error;
+    }
+
+    await ledger.attachStake(reservation, trade.id);
+    this.track(trade, market);
+    return trade;
+  }
+
+  // Sells an open paper contract back at its current value
+  async sell(tradeId: number, minPrice = 0): Promise<TradeClosure> {
+    const position = this.positions.get(tradeId);
+    if (!position) throw new PaperTradingError('Trade is not an open paper contract');
+
+    const bid = this.bidPrice(position);
+    if (bid < minPrice) throw new PaperTradingError('The contract is worth less than your minimum price');
+    return this.settle(position, bid);
+  }
+
+  // Settles a contract whose end time passed with no tick to decide it, at the last known spot
+  async expire(tradeId: number): Promise<void> {
+    const position = this.positions.get(tradeId);
+    if (!position) return;
+
+    const outcome = this.outcome(position, Date.now());
+    if (outcome) {
+      await this.settle(position, this.settlementValue(position, outcome));
+    }
+  }
+
+  async updateLimitOrders(tradeId: number, limitOrders: Pick<Trade, 'stopLoss' | 'takeProfit'>) {
+    const position = this.positions.get(tradeId);
+    if (!position) throw new PaperTradingError('Trade is not an open paper contract');
+
+    position.trade = { ...position.trade, ...limitOrders };
+    await storage.updateTrade(tradeId, limitOrders);
+  }
+
+  private async getPricedMarket(symbol: string): Promise<Market> {
+    const market = await storage.getMarket(symbol);
+    if (!market) throw new PaperTradingError(`Unknown market ${symbol}`);
+    if (!parseFloat(market.currentPrice ?? '')) throw new PaperTradingError(`${symbol} has no price yet`);
+    return market;
+  }
+
+  private volatility(market: Market, spot: number) {
+    const profile = getSimulationProfile(market);
+    return { volatility: impliedVolatility(profile, spot), tickSeconds: profile.tickInterval / 1000, pipSize: profile.pipSize };
+  }
+
+  private contractSeconds(request: PaperContractRequest, tickSeconds: number): number {
+    if (request.dateExpiry) return (request.dateExpiry.getTime() - Date.now()) / 1000;
+    const duration = request.duration ?? 0;
+    return request.durationType === 'ticks'
+      ? duration * tickSeconds
+      : duration * durationSeconds[request.durationType as DurationType];
+  }
+
+  // The payout for a stake, or null for multipliers, which pay their running value
+  private price(request: PaperContractRequest, market: Market, spot: number, stake: number): number | null {
+    if (request.multiplier) return null;
+
+    const { volatility, tickSeconds } = this.volatility(market, spot);
+    const years = this.contractSeconds(request, tickSeconds) / SECONDS_PER_YEAR;
+    const probability = this.winProbability(request.tradeType, {
+      spot,
+      barrier: resolveBarrier(request.barrier, spot),
+      barrier2: resolveBarrier(request.barrier2, spot),
+      digit: request.barrier ? Number(request.barrier) : undefined,
+      volatility,
+      years
+    });
+    const bounded = Math.min(MAX_PROBABILITY, Math.max(MIN_PROBABILITY, probability));
+    return round(stake * (1 - HOUSE_EDGE) / bounded);
+  }
+
+  private winProbability(tradeType: string, contract: {
+    spot: number; barrier?: number; barrier2?: number; digit?: number; volatility: number; years: number;
+  }): number {
+    const { spot, volatility, years } = contract;
+    const high = contract.barrier ?? spot;
+    const low = contract.barrier2 ?? spot;
+    const digit = contract.digit ?? 0;
+
+    switch (tradeType) {
+      case 'CALL': return contract.barrier === undefined ? 0.5 : probabilityAbove(spot, high, volatility, years);
+      case 'PUT': return contract.barrier === undefined ? 0.5 : 1 - probabilityAbove(spot, high, volatility, years);
+      case 'ONETOUCH': return probabilityTouch(spot, high, volatility, years);
+      case 'NOTOUCH': return 1 - probabilityTouch(spot, high, volatility, years);
+      case 'EXPIRYRANGE': return probabilityAbove(spot, low, volatility, years) - probabilityAbove(spot, high, volatility, years);
+      case 'EXPIRYMISS': return 1 - (probabilityAbove(spot, low, volatility, years) - probabilityAbove(spot, high, volatility, years));
+      case 'RANGE': return Math.max(0, 1 - probabilityTouch(spot, high, volatility, years) - probabilityTouch(spot, low, volatility, years));
+      case 'UPORDOWN': return Math.min(1, probabilityTouch(spot, high, volatility, years) + probabilityTouch(spot, low, volatility, years));
+      case 'DIGITOVER': return (9 - digit) / 10;
+      case 'DIGITUNDER': return digit / 10;
+      case 'DIGITMATCH': return 0.1;
+      case 'DIGITDIFF': return 0.9;
+      default: return 0.5; // Asian options
+    }
+  }
+
+  private track(trade: Trade, market: Market) {
+    const entry = parseFloat(trade.entryPrice ?? market.currentPrice ?? '0');
+    const spot = parseFloat(trade.currentSpot ?? '') || entry;
+    const { volatility, tickSeconds, pipSize } = this.volatility(market, entry);
+
+    const position: PaperPosition = {
+      trade,
+      entry,
+      spot,
+      barrier: resolveBarrier(trade.barrier, entry),
+      barrier2: resolveBarrier(trade.barrier2, entry),
+      quotes: [],
+      volatility,
+      tickSeconds,
+      pipSize
+    };
+    if (trade.dateExpiry) {
+      position.expiresAt = trade.dateExpiry.getTime();
+    } else if (trade.durationType === 'ticks') {
+      position.ticksLeft = trade.duration ?? 1; // Restored tick contracts start counting again
+    } else if (trade.duration) {
+      position.expiresAt = (trade.createdAt ?? new Date()).getTime() +
+        trade.duration * durationSeconds[trade.durationType as DurationType] * 1000;
+    }
+    this.positions.set(trade.id, position);
+  }
+
+  private handleTick(tick: MarketTick) {
+    this.positions.forEach((position) => {
+      if (position.trade.symbol !== tick.symbol) return;
+
+      position.spot = tick.quote;
+      position.quotes.push(tick.quote);
+      if (position.ticksLeft !== undefined) position.ticksLeft--;
+
+      const outcome = this.outcome(position, tick.epoch * 1000);
+      if (outcome) {
+        this.settle(position, this.settlementValue(position, outcome)).catch((error) => {
+          console.error(`Failed to settle paper trade ${position.trade.id}:`, error);
+        });
+        return;
+      }
+
+      const bidPrice = this.bidPrice(position).toFixed(2);
+      const currentSpot = tick.quote.toFixed(5);
+      storage.updateTrade(position.trade.id, { bidPrice, currentSpot }).catch(() => {});
+      this.emit('trade_updated', {
+        tradeId: position.trade.id,
+        derivTradeId: null,
+        bidPrice,
+        currentSpot,
+        entryPrice: position.trade.entryPrice
+      } satisfies TradeUpdate);
+    });
+  }
+
+  // Decides a contract on the latest tick: barrier events end it early, otherwise it runs to expiry
+  private outcome(position: PaperPosition, now: number): Outcome {
+    const { trade, spot, entry } = position;
+    const high = position.barrier ?? entry;
+    const low = position.barrier2 ?? entry;
+    const touched = high >= entry ? spot >= high : spot <= high;
+    const leftRange = spot >= high || spot <= low;
+
+    switch (trade.tradeType) {
+      case 'ONETOUCH': if (touched) return { won: true }; break;
+      case 'NOTOUCH': if (touched) return { won: false }; break;
+      case 'RANGE': if (leftRange) return { won: false }; break;
+      case 'UPORDOWN': if (leftRange) return { won: true }; break;
+      case 'MULTUP':
+      case 'MULTDOWN': return this.multiplierOutcome(position);
+    }
+
+    const expired = position.ticksLeft !== undefined
+      ? position.ticksLeft <= 0
+      : position.expiresAt !== undefined && now >= position.expiresAt;
+    if (!expired) return null;
+
+    const average = position.quotes.reduce((sum, quote) => sum + quote, 0) / (position.quotes.length || 1);
+    const digit = lastDigit(spot, position.pipSize);
+    const target = Number(trade.barrier);
+
+    switch (trade.tradeType) {
+      case 'CALL': return { won: spot > high };
+      case 'PUT': return { won: spot < high };
+      case 'EXPIRYRANGE': return { won: spot < high && spot > low };
+      case 'EXPIRYMISS': return { won: spot >= high || spot <= low };
+      case 'NOTOUCH':
+      case 'RANGE': return { won: true };
+      case 'ONETOUCH':
+      case 'UPORDOWN': return { won: false };
+      case 'ASIANU': return { won: spot > average };
+      case 'ASIAND': return { won: spot < average };
+      case 'DIGITOVER': return { won: digit > target };
+      case 'DIGITUNDER': return { won: digit < target };
+      case 'DIGITMATCH': return { won: digit === target };
+      case 'DIGITDIFF': return { won: digit !== target };
+      default: return { won: false };
+    }
+  }
+
+  // Multipliers close on stop out, stop loss or take profit and otherwise run until sold
+  private multiplierOutcome(position: PaperPosition): Outcome {
+    const stake = parseFloat(position.trade.stake);
+    const profit = this.bidPrice(position) - stake;
+    const stopLoss = parseFloat(position.trade.stopLoss ?? '');
+    const takeProfit = parseFloat(position.trade.takeProfit ?? '');
+
+    if (profit <= -stake || profit <= -stopLoss || profit >= takeProfit) {
+      return { won: profit > 0 };
+    }
+    return null;
+  }
+
+  // Multipliers close at what they're worth; everything else pays its fixed payout or nothing
+  private settlementValue(position: PaperPosition, outcome: { won: boolean }): number {
+    if (position.trade.multiplier) return this.bidPrice(position);
+    return outcome.won ? parseFloat(position.trade.payout ?? '0') : 0;
+  }
+
+  // What the contract could be sold back for now
+  private bidPrice(position: PaperPosition): number {
+    const { trade, spot, entry } = position;
+    const stake = parseFloat(trade.stake);
+
+    if (trade.multiplier) {
+      const direction = trade.tradeType === 'MULTDOWN' ? -1 : 1;
+      return round(Math.max(0, stake * (1 + direction * trade.multiplier * (spot / entry - 1))));
+    }
+
+    const seconds = position.ticksLeft !== undefined
+      ? position.ticksLeft * position.tickSeconds
+      : Math.max(0, ((position.expiresAt ?? Date.now()) - Date.now()) / 1000);
+    const probability = this.winProbability(trade.tradeType, {
+      spot,
+      barrier: position.barrier,
+      barrier2: position.barrier2,
+      digit: trade.barrier ? Number(trade.barrier) : undefined,
+      volatility: position.volatility,
+      years: seconds / SECONDS_PER_YEAR
+    });
+    return round(parseFloat(trade.payout ?? '0') * Math.max(0, Math.min(1, probability)) * (1 - HOUSE_EDGE));
+  }
+
+  private async settle(position: PaperPosition, amount: number): Promise<TradeClosure> {
+    const { trade } = position;
+    if (this.positions.get(trade.id) !== position) {
+      throw new PaperTradingError('Trade is already closed');
+    }
+    this.positions.delete(trade.id);
+
+    const payout = round(amount);
+    const closure: TradeClosure = {
+      tradeId: trade.id,
+      exitPrice: position.spot.toFixed(5),
+      payout: payout.toFixed(2),
+      profit: (payout - parseFloat(trade.stake)).toFixed(2)
+    };
+
+    await ledger.closeTrade(trade.id, closure.exitPrice, closure.payout, closure.profit);
+    this.emit('trade_closed', closure);
+    return closure;
+  }
+}
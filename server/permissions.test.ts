@@ -0,0 +1,60 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { User } from "@shared/schema";
+
+// Without DATABASE_URL the checks run on MemStorage, which never touches the pool
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.hoisted(() => {
+  delete process.env.DATABASE_URL;
+});
+
+const { canAccessClient, canActOnTrade, getStakeLimit } = await import("./permissions");
+const { storage } = await import("./storage");
+
+describe("permissions", () => {
+  let admin: User;
+  let trader: User;
+  let client: User;
+  let otherClient: User;
+
+  const user = (id: string, role: string) => storage.upsertUser({ id, email: `${id}@example.com`, role });
+
+  beforeAll(async () => {
+    admin = await user("perm-admin", "admin");
+    trader = await user("perm-trader", "trader");
+    client = await user("perm-client", "client");
+    otherClient = await user("perm-other-client", "client");
+    await storage.createAssignment({ traderId: trader.id, clientId: client.id, permission: "trade", maxStake: "25.00" });
+    await storage.createAssignment({ traderId: trader.id, clientId: otherClient.id, permission: "view" });
+  });
+
+  it("lets admins reach every client without a stake limit", async () => {
+    expect(await canAccessClient(admin, client.id, "trade")).toBe(true);
+    expect(await getStakeLimit(admin, client.id)).toBeNull();
+  });
+
+  it("limits traders to their assignments", async () => {
+    expect(await canAccessClient(trader, client.id, "trade")).toBe(true);
+    expect(await canAccessClient(trader, otherClient.id, "view")).toBe(true);
+    expect(await canAccessClient(trader, otherClient.id, "trade")).toBe(false);
+    expect(await canAccessClient(trader, admin.id, "view")).toBe(false);
+
+    expect(await getStakeLimit(trader, client.id)).toBe(25);
+    expect(await getStakeLimit(trader, otherClient.id)).toBeNull();
+  });
+
+  it("lets clients see only themselves", async () => {
+    expect(await canAccessClient(client, client.id, "view")).toBe(true);
+    expect(await canAccessClient(client, client.id, "trade")).toBe(false);
+    expect(await canAccessClient(client, otherClient.id, "view")).toBe(false);
+  });
+
+  it("lets owners and trading assignees act on a trade", async () => {
+    const trade = await storage.createTrade({ userId: client.id, symbol: "R_100", contractType: "Rise/Fall", tradeType: "CALL", stake: "10.00" });
+    const otherTrade = await storage.createTrade({ userId: otherClient.id, symbol: "R_100", contractType: "Rise/Fall", tradeType: "CALL", stake: "10.00" });
+
+    expect(await canActOnTrade(client, trade)).toBe(true);
+    expect(await canActOnTrade(trader, trade)).toBe(true);
+    expect(await canActOnTrade(trader, otherTrade)).toBe(false);
+    expect(await canActOnTrade(client, otherTrade)).toBe(false);
+  });
+});
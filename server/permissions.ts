@@ -0,0 +1,63 @@
+import type { RequestHandler } from "express";
+import { storage } from "./storage";
+import { hasPermission, type Permission } from "@shared/roles";
+import type { Trade, User } from "@shared/schema";
+
+export type ClientAction = "view" | "trade";
+
+/**
+ * Whether user may see or trade the account of clientId. Admins reach every
+ * client, traders reach the clients assigned to them (trading needs a "trade"
+ * assignment), and clients only see themselves.
+ */
+export async function canAccessClient(user: User, clientId: string, action: ClientAction): Promise<boolean> {
+  if (!hasPermission(user.role, action === "view" ? "clients:view" : "clients:trade")) {
+    return action === "view" && user.id === clientId;
+  }
+  if (user.role === "admin") return true;
+
+  const assignment = await storage.findAssignment(user.id, clientId);
+  return !!assignment && (action === "view" || assignment.permission === "trade");
+}
+
+// The most user may stake per trade on clientId's account, null when uncapped
+export async function getStakeLimit(user: User, clientId: string): Promise<number | null> {
+  if (user.role === "admin" || user.id === clientId) return null;
+
+  const assignment = await storage.findAssignment(user.id, clientId);
+  return assignment?.maxStake ? parseFloat(assignment.maxStake) : null;
+}
+
+// Owners may always manage their own trades
+export async function canActOnTrade(user: User, trade: Trade): Promise<boolean> {
+  return trade.userId === user.id || canAccessClient(user, trade.userId, "trade");
+}
+
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ message: "You do not have permission to do this" });
+    }
+    next();
+  };
+}
+
+// Guards /api/clients/:clientId routes
+export function requireClientAccess(action: ClientAction): RequestHandler {
+  return async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    try {
+      if (!(await canAccessClient(req.user, req.params.clientId, action))) {
+        return res.status(403).json({ message: "You do not have access to this client" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,216 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { WebSocket } from "ws";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { MockDerivServer } from "./mock-deriv-server";
+import type { Proposal, PublicUser, Trade } from "@shared/schema";
+
+// Without DATABASE_URL the app runs on MemStorage, which never touches the pool
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.hoisted(() => {
+  delete process.env.DATABASE_URL;
+});
+
+const SYMBOL = "frxEURUSD";
+const STAKE = "10.00";
+
+// Drives routes.ts against MockDerivServer the way a browser would: over HTTP
+// with a session cookie, and over /ws for streamed prices
+describe("routes against the mock Deriv server", () => {
+  const mock = new MockDerivServer({ tickInterval: 50 });
+  let server: Server;
+  let baseUrl: string;
+  let cookie = "";
+
+  async function api<T = unknown>(method: string, path: string, body?: unknown): Promise<{ status: number; body: T }> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "content-type": "application/json", cookie },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const setCookie = response.headers.get("set-cookie");
+    if (setCookie) cookie = setCookie.split(";")[0];
+    return { status: response.status, body: await response.json() };
+  }
+
+  async function until<T>(read: () => Promise<T | undefined>, timeout = 10000): Promise<T> {
+    const deadline = Date.now() + timeout;
+    while (Date.now() < deadline) {
+      const value = await read();
+      if (value !== undefined) return value;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    throw new Error(`Timed out after ${timeout}ms`);
+  }
+
+  async function balance(): Promise<number> {
+    const { body } = await api<PublicUser>("GET", "/api/auth/me");
+    return parseFloat(body.balance);
+  }
+
+  async function settled(tradeId: number): Promise<Trade> {
+    return until(async () => {
+      const { body } = await api<Trade[]>("GET", "/api/trades");
+      const trade = body.find((entry) => entry.id === tradeId);
+      return trade && trade.status !== "open" ? trade : undefined;
+    });
+  }
+
+  const tickTrade = (ticks: number) => ({
+    symbol: SYMBOL,
+    contractType: "Rise/Fall",
+    tradeType: "CALL",
+    stake: STAKE,
+    duration: ticks,
+    durationType: "ticks",
+  });
+
+  beforeAll(async () => {
+    process.env.DERIV_WS_URL = await mock.start();
+    process.env.DERIV_API_TOKEN = "mock-token";
+
+    const { registerRoutes } = await import("./routes");
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    // Live wallets start empty; an admin records what was paid into the Deriv account
+    const credentials = { username: "trader", password: "correct-horse-battery" };
+    const registered = await api<PublicUser>("POST", "/api/auth/register", { ...credentials, email: "trader@example.com" });
+    expect(registered.body.balance).toBe("0.00");
+    const { storage } = await import("./storage");
+    await storage.upsertUser({ ...(await storage.getUser(registered.body.id))!, role: "admin" });
+    expect((await api("POST", "/api/auth/login", credentials)).status).toBe(200);
+    const deposit = await api<{ balance: string }>("POST", `/api/clients/${registered.body.id}/deposits`, { amount: "1000.00" });
+    expect(deposit.body.balance).toBe("1000.00");
+
+    // Markets are added from active_symbols once Deriv connects, then priced from its ticks
+    await until(async () => {
+      const { body } = await api<Array<{ symbol: string; currentPrice: string | null }>>("GET", "/api/markets");
+      const market = body.find((entry) => entry.symbol === SYMBOL);
+      return market && parseFloat(market.currentPrice ?? "0") ? market : undefined;
+    });
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await mock.stop();
+  });
+
+  it("buys a quoted proposal and settles it into the ledger", async () => {
+    const before = await balance();
+
+    const proposal = await api<Proposal>("POST", "/api/proposals", tickTrade(5));
+    expect(proposal.status).toBe(200);
+    expect(proposal.body.askPrice).toBeGreaterThan(0);
+
+    const placed = await api<Trade>("POST", "/api/trades", {
+      ...tickTrade(5),
+      proposalId: proposal.body.id,
+      maxPrice: String(proposal.body.askPrice),
+    });
+    expect(placed.status).toBe(200);
+    expect(placed.body.derivTradeId).toBeTruthy();
+    expect(await balance()).toBeCloseTo(before - parseFloat(STAKE), 2);
+
+    const trade = await settled(placed.body.id);
+    expect(["won", "lost"]).toContain(trade.status);
+    expect(mock.getContract(Number(trade.derivTradeId))?.status).toBe(trade.status);
+
+    const paid = trade.status === "won" ? parseFloat(trade.payout!) : 0;
+    expect(await balance()).toBeCloseTo(before - parseFloat(STAKE) + paid, 2);
+
+    const { body: statement } = await api<Array<{ kind: string; tradeId: number | null }>>("GET", "/api/statement");
+    expect(statement.filter((line) => line.tradeId === trade.id).map((line) => line.kind).sort())
+      .toEqual(trade.status === "won" ? ["payout", "stake"] : ["stake"]);
+  });
+
+  it("records the proposal as quoted and keeps only what the buy cost", async () => {
+    const before = await balance();
+    const proposal = await api<Proposal>("POST", "/api/proposals", tickTrade(5));
+
+    // The request names another contract and allows paying more than the quote
+    const placed = await api<Trade>("POST", "/api/trades", {
+      ...tickTrade(5),
+      tradeType: "PUT",
+      stake: "50.00",
+      proposalId: proposal.body.id,
+      maxPrice: "60.00",
+    });
+    expect(placed.status).toBe(200);
+    expect(placed.body).toMatchObject({ tradeType: "CALL", stake: STAKE });
+    expect(await balance()).toBeCloseTo(before - parseFloat(STAKE), 2);
+    await settled(placed.body.id);
+
+    const again = await api("POST", "/api/trades", { ...tickTrade(5), proposalId: proposal.body.id });
+    expect(again.status).toBe(400);
+  });
+
+  it("refunds the stake when Deriv rejects the buy", async () => {
+    const before = await balance();
+    const tradesBefore = (await api<Trade[]>("GET", "/api/trades")).body.length;
+
+    mock.rejectNextBuy({ code: "ContractBuyValidationError", message: "Trading is not offered for this duration." });
+    const placed = await api("POST", "/api/trades", tickTrade(5));
+
+    expect(placed.status).toBe(400);
+    expect(placed.body).toEqual({ message: "Trading is not offered for this duration.", code: "ContractBuyValidationError" });
+    expect(await balance()).toBeCloseTo(before, 2);
+    expect((await api<Trade[]>("GET", "/api/trades")).body).toHaveLength(tradesBefore);
+  });
+
+  it("sells back a bought contract whose trade can't be recorded", async () => {
+    const { storage } = await import("./storage");
+    const before = await balance();
+    const sold = new Promise<number>((resolve) => {
+      vi.spyOn(storage, "createTrade").mockImplementationOnce(async (trade) => {
+        resolve(Number(trade.derivTradeId));
+        throw new Error("Database unavailable");
+      });
+    });
+
+    const placed = await api("POST", "/api/trades", tickTrade(10));
+    expect(placed.status).toBe(500);
+    expect(mock.getContract(await sold)?.status).toBe("sold");
+    expect(await balance()).toBeCloseTo(before, 2);
+  });
+
+  it("won't place a client trade without the client's Deriv connection", async () => {
+    const { body: me } = await api<PublicUser>("GET", "/api/auth/me");
+    const placed = await api("POST", `/api/clients/${me.id}/trade`, tickTrade(5));
+
+    expect(placed.status).toBe(503);
+    expect(placed.body).toEqual({ message: "Client is not connected to Deriv API" });
+  });
+
+  it("reconnects after a dropped connection and restores its streams", async () => {
+    const socket = new WebSocket(`${baseUrl.replace("http", "ws")}/ws`);
+    const prices: number[] = [];
+    socket.on("message", (raw) => {
+      const message = JSON.parse(raw.toString());
+      if (message.type === "price_update") prices.push(Date.now());
+    });
+    await new Promise((resolve) => socket.once("open", resolve));
+    socket.send(JSON.stringify({ type: "subscribe", channel: "ticks", symbols: [SYMBOL] }));
+
+    // A contract that runs through the outage, so its result has to arrive on the restored stream
+    const placed = await api<Trade>("POST", "/api/trades", tickTrade(10));
+    expect(placed.status).toBe(200);
+
+    const reconnected = new Promise((resolve) => mock.once("connection", resolve));
+    mock.dropConnections();
+    await reconnected;
+    const reconnectedAt = Date.now();
+
+    const trade = await settled(placed.body.id);
+    expect(["won", "lost"]).toContain(trade.status);
+
+    // Ticks flow again without the browser re-subscribing
+    await until(async () => (prices.some((at) => at > reconnectedAt) ? true : undefined));
+    socket.close();
+  });
+});
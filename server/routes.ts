@@ -1,15 +1,90 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
+import { createHash, randomBytes } from "crypto";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
-import { insertTradeSchema } from "@shared/schema";
+import {
+  candleStreamSchema,
+  candlesQuerySchema,
+  createAssignmentSchema,
+  indicatorsQuerySchema,
+  ledgerAdjustmentSchema,
+  ledgerDepositSchema,
+  linkApiTokenSchema,
+  placeTradeSchema,
+  proposalRequestSchema,
+  sellTradeSchema,
+  updateAssignmentSchema,
+  updateLimitOrdersSchema,
+  updateMarketSourceSchema,
+  wsSubscribeSchema,
+  wsUnsubscribeSchema,
+  type BookEntry,
+  type Candle,
+  type Market,
+  type Proposal,
+  type ProposalRequest,
+  type Trade,
+} from "@shared/schema";
+import {
+  contractCategories,
+  type ContractCategory,
+  type ContractOffering,
+  type TradeType,
+} from "@shared/contracts";
 import { z } from "zod";
-import DerivAPI from "./deriv-api";
+import DerivAPI, { DerivAPIError, toContractOptions } from "./deriv-api";
 import { clientManager } from "./client-manager";
+import { getSessionUser, requireAuth, setupAuth, toPublicUser } from "./auth";
+import { canAccessClient, canActOnTrade, getStakeLimit, requireClientAccess, requirePermission } from "./permissions";
+import { tokenVault } from "./token-vault";
+import { contractTracker, type TradeClosure, type TradeUpdate } from "./contract-tracker";
+import { CandleFeed, type CandleUpdate } from "./candle-feed";
+import { SimulatedCandleFeed } from "./simulated-candles";
+import { MarketDataHub } from "./market-data-hub";
+import { MarketPricer, type MarketPriceUpdate } from "./market-pricer";
+import { isPaperTrading, PaperTradingEngine, PaperTradingError } from "./paper-trading";
+import { expiryScheduler, type TradeAttention } from "./expiry-scheduler";
+import { ledger, InsufficientFundsError } from "./ledger";
+import { computeStudy } from "@shared/indicators";
+import type { ActiveSymbolsResponse, ContractsForResponse, ProposalResponse } from "./deriv-messages";
+
+const CONTRACTS_CACHE_TTL = 10 * 60 * 1000;
+const TOKEN_LINK_TTL = 24 * 60 * 60 * 1000; // Link tokens are redeemable for a day
+const PROPOSAL_TTL = 5 * 60 * 1000; // How long a quoted proposal can be bought by id
+
+function toOffering(
+  category: ContractCategory,
+  available: ContractsForResponse['contracts_for']['available'] = []
+): ContractOffering {
+  const first = available[0];
+  return {
+    ...category,
+    minDuration: first?.min_contract_duration ?? null,
+    maxDuration: first?.max_contract_duration ?? null,
+    defaultBarrier: first?.barrier ?? first?.high_barrier ?? null,
+    defaultBarrier2: first?.low_barrier ?? null,
+    multipliers: first?.multiplier_range ?? []
+  };
+}
+
+function formatProposal(proposal: ProposalResponse['proposal']): Proposal {
+  return {
+    id: proposal.id,
+    askPrice: proposal.ask_price,
+    payout: proposal.payout,
+    longcode: proposal.longcode,
+    spot: proposal.spot ?? null
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
+  setupAuth(app);
+  app.use("/api/trades", requireAuth);
+  app.use("/api/clients", requireAuth);
+
   // Initialize Deriv API
   const derivAPI = new DerivAPI({
     appId: '76613',
@@ -19,80 +94,348 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // WebSocket server for real-time data
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
 
-  // Store connected clients
-  const clients = new Set<WebSocket>();
+  // Each socket only hears about what it subscribed to: the symbols it shows
+  // prices for, and (once signed in) its user's trades
+  const tickWatchers = new Map<WebSocket, Set<string>>();
+  const tradeWatchers = new Map<WebSocket, string>();
 
-  // Connect to Deriv API
-  try {
-    await derivAPI.connect();
-    console.log('Connected to Deriv API');
-    
-    // Subscribe to market data when Deriv API connects
-    derivAPI.on('connected', () => {
-      derivAPI.getActiveSymbols();
-      // Subscribe to popular forex pairs
-      ['frxEURUSD', 'frxGBPUSD', 'frxUSDJPY', 'frxAUDUSD'].forEach(symbol => {
-        derivAPI.subscribeToTicks(symbol);
-      });
+  const sendToTradeOwner = (userId: string | null, message: { type: string; data: unknown }) => {
+    if (!userId) return;
+    const payload = JSON.stringify(message);
+    tradeWatchers.forEach((watcherId, client) => {
+      if (watcherId === userId && client.readyState === WebSocket.OPEN) {
+        client.send(payload);
+      }
     });
+  };
 
-    // Handle real-time tick data from Deriv
-    derivAPI.on('tick', (tickData) => {
-      const marketUpdate = {
-        symbol: tickData.tick.symbol,
-        currentPrice: tickData.tick.quote.toString(),
-        lastUpdate: new Date()
-      };
+  const sendPrices = (markets: Array<Partial<Market> & { symbol: string }>) => {
+    tickWatchers.forEach((symbols, client) => {
+      const watched = markets.filter((market) => symbols.has(market.symbol));
+      if (watched.length && client.readyState === WebSocket.OPEN) {
+        client.send(JSON.stringify({ type: 'price_update', data: watched }));
+      }
+    });
+  };
 
-      // Update local storage
-      storage.updateMarket(tickData.tick.symbol, marketUpdate);
+  const forwardTradeEvent = (type: 'trade_updated' | 'trade_closed' | 'trade_attention') =>
+    (event: TradeUpdate | TradeClosure | TradeAttention) => {
+      storage.getTrade(event.tradeId)
+        .then((trade) => sendToTradeOwner(trade?.userId ?? null, { type, data: event }))
+        .catch(console.error);
+    };
 
-      // Broadcast to all clients
-      clients.forEach(client => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({ 
-            type: 'price_update', 
-            data: [marketUpdate]
-          }));
-        }
-      });
+  // Push live contract state from Deriv to the trade's owner
+  contractTracker.on('trade_updated', forwardTradeEvent('trade_updated'));
+  contractTracker.on('trade_closed', forwardTradeEvent('trade_closed'));
+
+  // contracts_for results per symbol; the catalogue rarely changes intraday
+  const contractsCache = new Map<string, { offerings: ContractOffering[]; expiresAt: number }>();
+
+  // Shared tick streams; managed clients subscribe through it too
+  const marketData = new MarketDataHub(derivAPI);
+  clientManager.useMarketData(marketData);
+
+  // Prices every market from its configured source and sends each update to the sockets showing it
+  const pricer = new MarketPricer(derivAPI, marketData);
+  pricer.on('price', (update: MarketPriceUpdate) => sendPrices([update]));
+
+  // Without a Deriv account, trades are priced and settled locally and reported like Deriv ones
+  const paperTrading = new PaperTradingEngine(pricer);
+  paperTrading.on('trade_updated', forwardTradeEvent('trade_updated'));
+  paperTrading.on('trade_closed', forwardTradeEvent('trade_closed'));
+
+  // Sockets following a paper quote, re-quoted whenever their market moves
+  const paperQuoteStreams = new Map<WebSocket, { symbol: string; requote: () => void }>();
+  pricer.on('price', (update: MarketPriceUpdate) => {
+    paperQuoteStreams.forEach((stream) => {
+      if (stream.symbol === update.symbol) stream.requote();
     });
+  });
 
-    // Handle active symbols response
-    derivAPI.on('symbols', (symbolsData) => {
-      if (symbolsData.active_symbols) {
-        const markets = symbolsData.active_symbols
-          .filter((symbol: any) => symbol.market === 'forex' && symbol.submarket === 'major_pairs')
-          .slice(0, 10) // Limit to first 10 symbols
-          .map((symbol: any) => ({
-            symbol: symbol.symbol,
-            name: symbol.display_name,
-            category: 'forex',
-            currentPrice: '0.00000',
-            change: '0.00000',
-            changePercent: '0.00',
-            high: '0.00000',
-            low: '0.00000',
-            volume: '0',
-            isActive: true
-          }));
-
-        // Store markets in local storage
-        markets.forEach((market: any) => {
-          storage.createMarket(market).catch(console.error);
-        });
+  // Candle history cache and live ohlc streams, with the stream each browser follows
+  const candleFeed = new CandleFeed(derivAPI);
+  const candleStreams = new Map<WebSocket, { symbol: string; granularity: number; simulated: boolean }>();
+
+  // Markets not priced from Deriv chart candles built from their own prices
+  const simulatedCandles = new SimulatedCandleFeed(pricer);
+  const isSimulated = (market: Market | undefined): market is Market =>
+    market !== undefined && market.dataSource !== 'live';
+
+  const sendCandleUpdate = (update: CandleUpdate) => {
+    const payload = JSON.stringify({ type: 'candle_update', data: update });
+    candleStreams.forEach((stream, client) => {
+      if (stream.symbol === update.symbol && stream.granularity === update.granularity &&
+          client.readyState === WebSocket.OPEN) {
+        client.send(payload);
+      }
+    });
+  };
+  candleFeed.on('candle', sendCandleUpdate);
+  simulatedCandles.on('candle', sendCandleUpdate);
+
+  // Undefined when the market's candles come from Deriv and it isn't connected
+  const getCandles = async (symbol: string, granularity: number, count: number): Promise<Candle[] | undefined> => {
+    const market = pricer.getMarket(symbol) ?? await storage.getMarket(symbol);
+    if (isSimulated(market)) {
+      return simulatedCandles.getCandles(market, granularity, count);
+    }
+    if (!derivAPI.connected) return undefined;
+    return candleFeed.getCandles(symbol, granularity, count);
+  };
+
+  // The contract behind every proposal id handed out, so buying one records what was bought
+  const quotedProposals = new Map<string, { request: ProposalRequest; expiresAt: number }>();
+
+  const rememberProposal = (proposalId: string, request: ProposalRequest) => {
+    const now = Date.now();
+    quotedProposals.forEach((quote, id) => {
+      if (quote.expiresAt <= now) quotedProposals.delete(id);
+    });
+    quotedProposals.set(proposalId, { request, expiresAt: now + PROPOSAL_TTL });
+  };
+
+  // Proposals are bought at most once
+  const takeProposal = (proposalId: string): ProposalRequest | undefined => {
+    const quote = quotedProposals.get(proposalId);
+    quotedProposals.delete(proposalId);
+    return quote && quote.expiresAt > Date.now() ? quote.request : undefined;
+  };
+
+  // Streaming proposals by Deriv subscription id
+  const proposalStreams = new Map<string, { client: WebSocket; request: ProposalRequest }>();
+
+  derivAPI.on('proposal', (response: ProposalResponse) => {
+    const subscriptionId = response.subscription?.id;
+    const stream = subscriptionId ? proposalStreams.get(subscriptionId) : undefined;
+    if (stream && stream.client.readyState === WebSocket.OPEN) {
+      rememberProposal(response.proposal.id, stream.request);
+      stream.client.send(JSON.stringify({ type: 'proposal', data: formatProposal(response.proposal) }));
+    }
+  });
+
+  // Handle active symbols response
+  const handleActiveSymbols = (activeSymbols: ActiveSymbolsResponse['active_symbols']) => {
+    const markets = activeSymbols
+      .filter((symbol) => symbol.market === 'forex' && symbol.submarket === 'major_pairs')
+      .slice(0, 10) // Limit to first 10 symbols
+      .map((symbol) => ({
+        symbol: symbol.symbol,
+        name: symbol.display_name,
+        category: 'forex',
+        currentPrice: '0.00000',
+        change: '0.00000',
+        changePercent: '0.00',
+        high: '0.00000',
+        low: '0.00000',
+        volume: '0',
+        isActive: true
+      }));
+
+    // New markets start live; existing ones keep the source they were given
+    markets.forEach(async (market) => {
+      try {
+        if (await storage.getMarket(market.symbol)) return;
+        pricer.track(await storage.createMarket(market));
+      } catch (error) {
+        console.error(`Failed to add market ${market.symbol}:`, error);
       }
     });
+  };
+
+  // Refresh markets whenever Deriv API (re)connects
+  derivAPI.on('connected', () => {
+    derivAPI.getActiveSymbols()
+      .then(handleActiveSymbols)
+      .catch((error) => console.error('Failed to fetch active symbols:', error.message));
+  });
 
+  // Connect to Deriv API
+  try {
+    await derivAPI.connect();
+    console.log('Connected to Deriv API');
   } catch (error) {
     console.error('Failed to connect to Deriv API:', error);
-    console.log('Using demo mode with simulated data');
+    console.log('Live markets will start pricing once Deriv is reachable');
   }
 
-  wss.on('connection', (ws) => {
-    clients.add(ws);
+  const pricingStarted = pricer.start()
+    .then(() => paperTrading.restore())
+    .catch((error) => console.error('Failed to start market pricing:', error));
+
+  // Prices and the Deriv socket, with their retry timers, stop with the server
+  httpServer.on('close', () => {
+    pricer.stop();
+    derivAPI.disconnect();
+  });
+
+  // Bring back the client sockets that were connected before the restart
+  clientManager.restoreConnections()
+    .catch((error) => console.error('Failed to restore client connections:', error));
+
+  wss.on('connection', (ws, req) => {
+    const sessionUser = getSessionUser(req);
+    const watchedSymbols = new Set<string>();
+    tickWatchers.set(ws, watchedSymbols);
     console.log('Client connected to WebSocket');
 
+    const send = (message: object) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+      }
+    };
+
+    const sendSubscriptionError = (channel: string, message: string) => {
+      send({ type: 'subscription_error', channel, message });
+    };
+
+    let proposalSubscriptionId: string | null = null;
+    let proposalSequence = 0;
+
+    const stopProposalStream = () => {
+      proposalSequence++;
+      paperQuoteStreams.delete(ws);
+      if (proposalSubscriptionId) {
+        proposalStreams.delete(proposalSubscriptionId);
+        derivAPI.forget(proposalSubscriptionId).catch(() => {});
+        proposalSubscriptionId = null;
+      }
+    };
+
+    const startPaperQuotes = (params: z.infer<typeof proposalRequestSchema>) => {
+      const sequence = proposalSequence;
+      const requote = () => {
+        paperTrading.quote(params)
+          .then((proposal) => {
+            if (sequence === proposalSequence) send({ type: 'proposal', data: proposal });
+          })
+          .catch((error) => {
+            if (sequence === proposalSequence) sendSubscriptionError('proposal', error.message);
+          });
+      };
+
+      paperQuoteStreams.set(ws, { symbol: params.symbol, requote });
+      requote();
+    };
+
+    const startProposalStream = (params: z.infer<typeof proposalRequestSchema>) => {
+      stopProposalStream();
+      if (isPaperTrading()) return startPaperQuotes(params);
+      const sequence = proposalSequence;
+
+      derivAPI.subscribeToProposal(toContractOptions(params))
+        .then((response) => {
+          const subscriptionId = response.subscription?.id;
+          // A newer request superseded this one while it was in flight
+          if (sequence !== proposalSequence || ws.readyState !== WebSocket.OPEN) {
+            if (subscriptionId) derivAPI.forget(subscriptionId).catch(() => {});
+            return;
+          }
+
+          if (subscriptionId) {
+            proposalSubscriptionId = subscriptionId;
+            proposalStreams.set(subscriptionId, { client: ws, request: params });
+          }
+          rememberProposal(response.proposal.id, params);
+          ws.send(JSON.stringify({ type: 'proposal', data: formatProposal(response.proposal) }));
+        })
+        .catch((error) => {
+          if (sequence === proposalSequence) {
+            sendSubscriptionError('proposal', error.message);
+          }
+        });
+    };
+
+    const stopCandleStream = () => {
+      const stream = candleStreams.get(ws);
+      if (stream) {
+        candleStreams.delete(ws);
+        if (!stream.simulated) candleFeed.unsubscribe(stream.symbol, stream.granularity).catch(() => {});
+      }
+    };
+
+    const startCandleStream = (params: z.infer<typeof candleStreamSchema>) => {
+      stopCandleStream();
+
+      const market = pricer.getMarket(params.symbol);
+      const stream = { symbol: params.symbol, granularity: params.granularity, simulated: isSimulated(market) };
+      candleStreams.set(ws, stream);
+      if (isSimulated(market)) {
+        // Builds the series if no one has asked for it yet, so ticks extend it
+        simulatedCandles.getCandles(market, params.granularity, 1);
+        return;
+      }
+      candleFeed.subscribe(stream.symbol, stream.granularity).catch((error) => {
+        // The feed already dropped this subscriber, so don't unsubscribe it again
+        if (candleStreams.get(ws) === stream) candleStreams.delete(ws);
+        sendSubscriptionError('candles', error.message);
+      });
+    };
+
+    // Prices come from the market pricer, whatever each market's source
+    const watchSymbols = (symbols: string[]) => {
+      symbols.forEach((symbol) => watchedSymbols.add(symbol));
+    };
+
+    const unwatchSymbols = (symbols: string[] = Array.from(watchedSymbols)) => {
+      symbols.forEach((symbol) => watchedSymbols.delete(symbol));
+    };
+
+    // Only the signed-in user's own trades are ever sent
+    const watchTrades = async () => {
+      const user = await sessionUser;
+      if (!user) {
+        sendSubscriptionError('trades', 'Sign in to follow your trades');
+      } else if (ws.readyState === WebSocket.OPEN) {
+        tradeWatchers.set(ws, user.id);
+      }
+    };
+
+    const subscribe = (request: unknown) => {
+      const parsed = wsSubscribeSchema.safeParse(request);
+      if (!parsed.success) {
+        const channel = (request as { channel?: unknown })?.channel;
+        sendSubscriptionError(typeof channel === 'string' ? channel : 'unknown', 'Invalid subscription');
+        return;
+      }
+
+      const subscription = parsed.data;
+      switch (subscription.channel) {
+        case 'ticks':
+          watchSymbols(subscription.symbols);
+          break;
+        case 'candles':
+          startCandleStream(subscription.params);
+          break;
+        case 'proposal':
+          startProposalStream(subscription.params);
+          break;
+        case 'trades':
+          watchTrades().catch(console.error);
+          break;
+      }
+    };
+
+    const unsubscribe = (request: unknown) => {
+      const parsed = wsUnsubscribeSchema.safeParse(request);
+      if (!parsed.success) return;
+
+      switch (parsed.data.channel) {
+        case 'ticks':
+          unwatchSymbols(parsed.data.symbols);
+          break;
+        case 'candles':
+          stopCandleStream();
+          break;
+        case 'proposal':
+          stopProposalStream();
+          break;
+        case 'trades':
+          tradeWatchers.delete(ws);
+          break;
+      }
+    };
+
     // Send initial market data
     storage.getAllMarkets().then(markets => {
       if (ws.readyState === WebSocket.OPEN) {
@@ -115,6 +458,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
               app_id: '76613'
             }));
           }
+        } else if (data.type === 'subscribe') {
+          subscribe(data);
+        } else if (data.type === 'unsubscribe') {
+          unsubscribe(data);
         }
       } catch (error) {
         console.error('WebSocket message error:', error);
@@ -122,47 +469,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     ws.on('close', () => {
-      clients.delete(ws);
+      stopProposalStream();
+      stopCandleStream();
+      unwatchSymbols();
+      tickWatchers.delete(ws);
+      tradeWatchers.delete(ws);
       console.log('Client disconnected from WebSocket');
     });
   });
 
-  // Simulate real-time price updates
-  setInterval(() => {
-    storage.getAllMarkets().then(markets => {
-      const updatedMarkets = markets.map(market => {
-        const change = (Math.random() - 0.5) * 0.002;
-        const newPrice = (parseFloat(market.currentPrice || "0") + change).toFixed(5);
-        const newChange = change.toFixed(5);
-        const newChangePercent = (change * 100).toFixed(2);
-        
-        // Update in storage
-        storage.updateMarket(market.symbol, {
-          currentPrice: newPrice,
-          change: newChange,
-          changePercent: newChangePercent,
-        });
-
-        return {
-          ...market,
-          currentPrice: newPrice,
-          change: newChange,
-          changePercent: newChangePercent,
-        };
-      });
-
-      // Broadcast to all connected clients
-      clients.forEach(client => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({ 
-            type: 'price_update', 
-            data: updatedMarkets 
-          }));
-        }
-      });
-    });
-  }, 2000);
-
   // API Routes
   
   // Get all markets
@@ -188,131 +503,430 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Choose whether a market follows Deriv, replays recorded ticks or is simulated
+  app.patch("/api/markets/:symbol/source", requirePermission("markets:manage"), async (req, res) => {
+    try {
+      const { dataSource } = updateMarketSourceSchema.parse(req.body);
+      if (!(await storage.getMarket(req.params.symbol))) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+
+      const market = await pricer.setSource(req.params.symbol, dataSource);
+      res.json(market);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data source", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update market data source" });
+    }
+  });
+
+  // Contract types offered for a market
+  app.get("/api/markets/:symbol/contracts", async (req, res) => {
+    try {
+      // Without Deriv the full catalogue is offered with no limits
+      if (!derivAPI.connected) {
+        return res.json(contractCategories.map(category => toOffering(category)));
+      }
+
+      const cached = contractsCache.get(req.params.symbol);
+      if (cached && cached.expiresAt > Date.now()) {
+        return res.json(cached.offerings);
+      }
+
+      const available = await derivAPI.getContractsFor(req.params.symbol);
+      const offerings = contractCategories
+        .map(category => {
+          const matches = available.filter(contract =>
+            contract.contract_category === category.derivCategory &&
+            category.tradeTypes.includes(contract.contract_type as TradeType) &&
+            // Rise/Fall and Higher/Lower share contract types and differ by barrier count
+            (category.derivCategory !== 'callput' || contract.barriers === category.barriers)
+          );
+          return matches.length > 0 ? toOffering(category, matches) : null;
+        })
+        .filter((offering): offering is ContractOffering => offering !== null);
+
+      contractsCache.set(req.params.symbol, { offerings, expiresAt: Date.now() + CONTRACTS_CACHE_TTL });
+      res.json(offerings);
+    } catch (error) {
+      if (error instanceof DerivAPIError) {
+        return res.status(400).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to fetch contract types" });
+    }
+  });
+
+  // Historical candles; granularity in seconds
+  app.get("/api/markets/:symbol/candles", async (req, res) => {
+    try {
+      const { granularity, count } = candlesQuerySchema.parse(req.query);
+
+      const candles = await getCandles(req.params.symbol, granularity, count);
+      if (!candles) {
+        return res.status(503).json({ message: "Candles unavailable: not connected to Deriv API" });
+      }
+      res.json(candles);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid candle query", errors: error.errors });
+      }
+      if (error instanceof DerivAPIError) {
+        return res.status(400).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to fetch candles" });
+    }
+  });
+
+  // Indicator values over the same candles the chart draws
+  app.get("/api/markets/:symbol/indicators", async (req, res) => {
+    try {
+      const { granularity, count, studies } = indicatorsQuerySchema.parse(req.query);
+
+      const candles = await getCandles(req.params.symbol, granularity, count);
+      if (!candles) {
+        return res.status(503).json({ message: "Indicators unavailable: not connected to Deriv API" });
+      }
+      res.json(studies.map(study => computeStudy(study, candles)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid indicator query", errors: error.errors });
+      }
+      if (error instanceof DerivAPIError) {
+        return res.status(400).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to compute indicators" });
+    }
+  });
+
+  // Price a contract without buying it
+  app.post("/api/proposals", async (req, res) => {
+    try {
+      const proposalRequest = proposalRequestSchema.parse(req.body);
+
+      if (!derivAPI.connected) {
+        return res.status(503).json({ message: "Pricing unavailable: not connected to Deriv API" });
+      }
+
+      const proposal = await derivAPI.getProposal(toContractOptions(proposalRequest));
+      rememberProposal(proposal.id, proposalRequest);
+      res.json(formatProposal(proposal));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid proposal data", errors: error.errors });
+      }
+      if (error instanceof DerivAPIError) {
+        return res.status(400).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to fetch proposal" });
+    }
+  });
+
   // Place new trade
-  app.post("/api/trades", async (req, res) => {
+  app.post("/api/trades", requireAuth, async (req, res) => {
     try {
-      const validatedData = insertTradeSchema.parse(req.body);
-      
+      const { proposalId, maxPrice, ...validatedData } = placeTradeSchema.parse({ ...req.body, userId: req.user!.id });
+
+      // A Deriv proposal is bought as it was quoted, whatever else the request says
+      let contract = validatedData;
+      if (proposalId && !isPaperTrading()) {
+        const quoted = takeProposal(proposalId);
+        if (!quoted) {
+          return res.status(400).json({ message: "Unknown or expired proposal; request a new quote" });
+        }
+        const { currency, ...parameters } = quoted;
+        contract = { ...validatedData, ...parameters };
+      }
+
       // Get current market price
-      const market = await storage.getMarket(validatedData.symbol);
+      const market = await storage.getMarket(contract.symbol);
       if (!market) {
         return res.status(404).json({ message: "Market not found" });
       }
 
-      // If Deriv API is connected and token is available, place real trade
-      if (derivAPI.connected && process.env.DERIV_API_TOKEN) {
-        try {
-          // Place trade through Deriv API
-          await derivAPI.placeTrade({
-            symbol: validatedData.symbol,
-            tradeType: validatedData.tradeType as 'CALL' | 'PUT',
-            amount: parseFloat(validatedData.stake),
-            duration: validatedData.duration,
-            durationType: validatedData.durationType === 'minutes' ? 'm' : 
-                         validatedData.durationType === 'hours' ? 'h' : 'd',
-            basis: 'stake'
-          });
+      // Without a Deriv account the trade runs on the paper trading engine
+      if (isPaperTrading()) {
+        const trade = await paperTrading.place(contract);
+        expiryScheduler.schedule(trade);
+        sendToTradeOwner(trade.userId, { type: 'trade_placed', data: trade });
+        return res.json(trade);
+      }
+
+      if (!derivAPI.connected) {
+        return res.status(503).json({ message: "Deriv API is not connected" });
+      }
 
-          console.log('Trade placed through Deriv API');
-        } catch (derivError) {
-          console.error('Deriv API trade error:', derivError);
-          return res.status(500).json({ message: "Failed to place trade with Deriv API" });
+      // Hold the most the order can cost while it's out, so concurrent orders can't spend it too
+      const hold = proposalId
+        ? Math.max(parseFloat(contract.stake), parseFloat(maxPrice ?? contract.stake)).toFixed(2)
+        : contract.stake;
+      const reservation = await ledger.reserveStake(contract.userId, hold, `${contract.tradeType} on ${contract.symbol}`);
+
+      let buy;
+      try {
+        // Buy the quoted proposal, or price and buy in one go
+        buy = proposalId
+          ? await derivAPI.buyProposal(proposalId, parseFloat(hold))
+          : await derivAPI.placeTrade(toContractOptions(contract));
+        console.log(`Trade placed through Deriv API: contract ${buy.contract_id}`);
+      } catch (derivError) {
+        console.error('Deriv API trade error:', derivError);
+        await ledger.refundStake(reservation, hold);
+        if (derivError instanceof DerivAPIError) {
+          return res.status(400).json({ message: derivError.message, code: derivError.code });
         }
+        return res.status(500).json({ message: "Failed to place trade with Deriv API" });
+      }
+
+      // Only what the buy actually cost stays staked
+      const unused = parseFloat(hold) - buy.buy_price;
+      if (unused > 0) {
+        await ledger.refundStake(reservation, unused.toFixed(2));
       }
 
       // Create trade record in local storage
-      const trade = await storage.createTrade({
-        ...validatedData,
-        entryPrice: market.currentPrice || "0",
-      });
+      let trade;
+      try {
+        trade = await storage.createTrade({
+          ...contract,
+          stake: buy.buy_price.toFixed(2),
+          entryPrice: market.currentPrice || "0",
+          payout: buy.payout.toFixed(2),
+          derivTradeId: buy.contract_id.toString(),
+        });
+      } catch (error) {
+        await contractTracker.abandon(derivAPI, buy.contract_id, reservation, buy.buy_price.toFixed(2));
+        throw error;
+      }
 
-      // Calculate potential payout
-      const payout = (parseFloat(validatedData.stake) * 1.85).toFixed(2);
-      
-      // Broadcast trade update
-      clients.forEach(client => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({ 
-            type: 'trade_placed', 
-            data: { ...trade, payout } 
-          }));
-        }
-      });
+      await ledger.attachStake(reservation, trade.id);
+      contractTracker.track(derivAPI, trade.id, buy.contract_id);
+      expiryScheduler.schedule(trade);
+
+      sendToTradeOwner(trade.userId, { type: 'trade_placed', data: trade });
 
-      res.json({ ...trade, payout });
+      res.json(trade);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid trade data", errors: error.errors });
       }
+      if (error instanceof PaperTradingError || error instanceof InsufficientFundsError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to place trade" });
     }
   });
 
-  // Get user trades
-  app.get("/api/trades/user/:userId", async (req, res) => {
+  // Get the signed-in user's trades
+  app.get("/api/trades", requireAuth, async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      const trades = await storage.getTradesByUser(userId);
+      const trades = await storage.getTradesByUser(req.user!.id);
       res.json(trades);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch trades" });
     }
   });
 
-  // Get user open positions
-  app.get("/api/positions/user/:userId", async (req, res) => {
+  // Get the signed-in user's open positions
+  app.get("/api/positions", requireAuth, async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      const positions = await storage.getOpenTradesByUser(userId);
+      const positions = await storage.getOpenTradesByUser(req.user!.id);
       res.json(positions);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch positions" });
     }
   });
 
-  // Close trade
-  app.post("/api/trades/:tradeId/close", async (req, res) => {
+  // Every movement on the signed-in user's wallet, newest first
+  app.get("/api/statement", requireAuth, async (req, res) => {
+    try {
+      res.json(await ledger.getStatement(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch statement" });
+    }
+  });
+
+  // Trades that expired without a settlement, for staff to chase up
+  app.get("/api/trades/attention", requirePermission("clients:view"), async (req, res) => {
+    try {
+      const trades = await storage.getTradesNeedingAttention();
+      res.json(trades);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trades needing attention" });
+    }
+  });
+
+  // Loads an open Deriv-backed or paper trade the user may act on, or answers with why not
+  const findOpenContractTrade = async (tradeId: number, user: Express.User, res: Response) => {
+    const trade = await storage.getTrade(tradeId);
+    if (!trade) {
+      res.status(404).json({ message: "Trade not found" });
+      return undefined;
+    }
+    if (!(await canActOnTrade(user, trade))) {
+      res.status(403).json({ message: "You do not have access to this trade" });
+      return undefined;
+    }
+    if (trade.status !== "open") {
+      res.status(409).json({ message: "Trade is already closed" });
+      return undefined;
+    }
+    if (!trade.derivTradeId && !trade.paper) {
+      res.status(409).json({ message: "Trade has no Deriv contract" });
+      return undefined;
+    }
+    return trade;
+  };
+
+  // Client trades go through the client's own connection
+  const getTradingAPI = (trade: Trade) =>
+    clientManager.getClientAPI(trade.userId) ||
+    (process.env.DERIV_API_TOKEN && derivAPI.connected ? derivAPI : undefined);
+
+  // Once a trade's duration elapses, ask its source for the result; open paper
+  // positions are back in the engine by the time the scheduler starts
+  expiryScheduler.on('trade_attention', forwardTradeEvent('trade_attention'));
+  pricingStarted
+    .then(() => expiryScheduler.start(async (trade) => {
+      if (trade.paper) return paperTrading.expire(trade.id);
+
+      const tradingAPI = getTradingAPI(trade);
+      if (!tradingAPI) throw new Error('No Deriv connection available');
+      await contractTracker.reconcile(tradingAPI, trade.id, parseInt(trade.derivTradeId!));
+    }))
+    .catch((error) => console.error('Failed to schedule open trades:', error));
+
+  // Sell an open trade back to Deriv at market
+  app.post("/api/trades/:tradeId/close", requireAuth, async (req, res) => {
     try {
       const tradeId = parseInt(req.params.tradeId);
-      const { exitPrice, payout, profit } = req.body;
-      
-      await storage.closeTrade(tradeId, exitPrice, payout, profit);
-      
-      // Broadcast trade closure
-      clients.forEach(client => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({ 
-            type: 'trade_closed', 
-            data: { tradeId, exitPrice, payout, profit } 
-          }));
-        }
-      });
+      const { minPrice } = sellTradeSchema.parse(req.body);
 
-      res.json({ message: "Trade closed successfully" });
+      const trade = await findOpenContractTrade(tradeId, req.user!, res);
+      if (!trade) return;
+
+      // The engine reports the closure to the owner's sockets itself
+      if (trade.paper) {
+        const closure = await paperTrading.sell(tradeId, minPrice);
+        return res.json({ message: "Trade closed successfully", ...closure });
+      }
+
+      const tradingAPI = getTradingAPI(trade);
+      if (!tradingAPI) {
+        return res.status(503).json({ message: "No Deriv connection available to sell this trade" });
+      }
+
+      const contractId = parseInt(trade.derivTradeId!);
+      const sell = await tradingAPI.sellContract(contractId, minPrice);
+      await contractTracker.untrack(contractId);
+
+      const market = await storage.getMarket(trade.symbol);
+      const exitPrice = trade.currentSpot || market?.currentPrice || trade.entryPrice || "0";
+      const payout = sell.sold_for.toFixed(2);
+      const profit = (sell.sold_for - parseFloat(trade.stake)).toFixed(2);
+
+      // The contract tracker may have settled it while the sell was out
+      if (!(await ledger.closeTrade(tradeId, exitPrice, payout, profit))) {
+        return res.status(409).json({ message: "Trade was already settled", trade: await storage.getTrade(tradeId) });
+      }
+
+      sendToTradeOwner(trade.userId, { type: 'trade_closed', data: { tradeId, exitPrice, payout, profit } });
+
+      res.json({ message: "Trade closed successfully", tradeId, exitPrice, payout, profit });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid close request", errors: error.errors });
+      }
+      if (error instanceof DerivAPIError) {
+        return res.status(400).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof PaperTradingError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to close trade" });
     }
   });
 
+  // Change stop loss / take profit on an open multiplier
+  app.patch("/api/trades/:tradeId/limit-orders", requireAuth, async (req, res) => {
+    try {
+      const tradeId = parseInt(req.params.tradeId);
+      const { stopLoss, takeProfit } = updateLimitOrdersSchema.parse(req.body);
+
+      const trade = await findOpenContractTrade(tradeId, req.user!, res);
+      if (!trade) return;
+
+      if (!trade.multiplier) {
+        return res.status(409).json({ message: "Limit orders are only available on multipliers" });
+      }
+      if (trade.dealCancellation && (stopLoss || takeProfit)) {
+        return res.status(409).json({ message: "Limit orders cannot be set while deal cancellation is active" });
+      }
+
+      let limitOrders: Pick<Trade, 'stopLoss' | 'takeProfit'>;
+      if (trade.paper) {
+        const toLimit = (value: string | null | undefined, current: string | null) =>
+          value === undefined ? current : value === null ? null : parseFloat(value).toFixed(2);
+
+        limitOrders = {
+          stopLoss: toLimit(stopLoss, trade.stopLoss),
+          takeProfit: toLimit(takeProfit, trade.takeProfit)
+        };
+        await paperTrading.updateLimitOrders(tradeId, limitOrders);
+      } else {
+        const tradingAPI = getTradingAPI(trade);
+        if (!tradingAPI) {
+          return res.status(503).json({ message: "No Deriv connection available to update this trade" });
+        }
+
+        const toOrderAmount = (value: string | null | undefined) =>
+          value === undefined ? undefined : value === null ? null : parseFloat(value);
+
+        const update = await tradingAPI.updateLimitOrders(parseInt(trade.derivTradeId!), {
+          stop_loss: toOrderAmount(stopLoss),
+          take_profit: toOrderAmount(takeProfit)
+        });
+
+        limitOrders = {
+          stopLoss: update.stop_loss?.order_amount?.toFixed(2) ?? null,
+          takeProfit: update.take_profit?.order_amount?.toFixed(2) ?? null
+        };
+        await storage.updateTrade(tradeId, limitOrders);
+      }
+
+      sendToTradeOwner(trade.userId, { type: 'trade_updated', data: { tradeId, ...limitOrders } });
+
+      res.json({ tradeId, ...limitOrders });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid limit orders", errors: error.errors });
+      }
+      if (error instanceof DerivAPIError) {
+        return res.status(400).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof PaperTradingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update limit orders" });
+    }
+  });
+
   // Client Management Endpoints
 
-  // Connect a client to Deriv API
-  app.post("/api/clients/connect", async (req, res) => {
+  // Connect a client to Deriv API with their linked token
+  app.post("/api/clients/connect", requirePermission("clients:manage"), async (req, res) => {
     try {
-      const { userId, derivAccountId, apiToken, currency = 'USD' } = req.body;
+      const userId = req.body.userId ? String(req.body.userId) : "";
+      const user = userId ? await storage.getUser(userId) : undefined;
 
-      if (!apiToken) {
-        return res.status(400).json({ message: "API token is required" });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!user.apiToken) {
+        return res.status(400).json({ message: "Client has not linked a Deriv API token" });
       }
 
-      const success = await clientManager.connectClient({
-        userId,
-        derivAccountId,
-        apiToken,
-        balance: "0",
-        currency,
-        isActive: true
-      });
+      const success = await clientManager.connectClient(userId);
 
       if (success) {
         res.json({ message: "Client connected successfully", connected: true });
@@ -324,10 +938,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Issue a one-time link the client follows to store their Deriv API token
+  app.post("/api/clients/:clientId/token-link", requirePermission("clients:manage"), async (req, res) => {
+    try {
+      const clientId = req.params.clientId;
+      if (!(await storage.getUser(clientId))) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const linkToken = randomBytes(32).toString("base64url");
+      const link = await storage.createTokenLink({
+        userId: clientId,
+        tokenHash: createHash("sha256").update(linkToken).digest("hex"),
+        createdBy: req.user!.id,
+        expiresAt: new Date(Date.now() + TOKEN_LINK_TTL),
+      });
+
+      res.status(201).json({ linkToken, url: `/link/${linkToken}`, expiresAt: link.expiresAt });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create token link" });
+    }
+  });
+
+  // Remove a client's stored Deriv token and drop their connection
+  app.delete("/api/clients/:clientId/token", requirePermission("clients:manage"), async (req, res) => {
+    try {
+      const clientId = req.params.clientId;
+      await clientManager.disconnectClient(clientId);
+      await storage.updateUserApiToken(clientId, null);
+      res.json({ message: "Deriv API token removed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove token" });
+    }
+  });
+
+  // Rewrap stored tokens under the current TOKEN_ENCRYPTION_KEYS master key, encrypting any left in plaintext
+  app.post("/api/clients/tokens/rotate", requirePermission("clients:manage"), async (req, res) => {
+    try {
+      let rotated = 0;
+      const failed: string[] = [];
+
+      for (const user of await storage.getUsersWithApiToken()) {
+        try {
+          if (!tokenVault.needsRotation(user.apiToken!)) continue;
+          await storage.updateUserApiToken(user.id, tokenVault.rotate(user.apiToken!));
+          rotated++;
+        } catch (error) {
+          console.error(`Failed to rotate Deriv token for user ${user.id}:`, error);
+          failed.push(user.id);
+        }
+      }
+
+      res.json({ keyId: tokenVault.currentKeyId, rotated, failed });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to rotate tokens" });
+    }
+  });
+
   // Disconnect a client
-  app.post("/api/clients/:clientId/disconnect", async (req, res) => {
+  app.post("/api/clients/:clientId/disconnect", requirePermission("clients:manage"), async (req, res) => {
     try {
-      const clientId = parseInt(req.params.clientId);
+      const clientId = req.params.clientId;
       await clientManager.disconnectClient(clientId);
       res.json({ message: "Client disconnected successfully" });
     } catch (error) {
@@ -336,31 +1007,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Place trade for a specific client
-  app.post("/api/clients/:clientId/trade", async (req, res) => {
-    try {
-      const clientId = parseInt(req.params.clientId);
-      const { symbol, tradeType, amount, duration, durationType, contractType } = req.body;
-
-      const trade = await clientManager.placeTradeForClient({
-        clientId,
-        symbol,
-        tradeType,
-        amount,
-        duration,
-        durationType,
-        contractType
-      });
+  app.post("/api/clients/:clientId/trade", requireClientAccess("trade"), async (req, res) => {
+    try {
+      const clientId = req.params.clientId;
+      const { proposalId, maxPrice, ...validatedData } = placeTradeSchema.parse({ ...req.body, userId: clientId });
+
+      const stakeLimit = await getStakeLimit(req.user!, clientId);
+      if (stakeLimit !== null && parseFloat(validatedData.stake) > stakeLimit) {
+        return res.status(403).json({ message: `Stake exceeds the ${stakeLimit.toFixed(2)} limit for this client` });
+      }
+
+      if (!clientManager.isClientConnected(clientId)) {
+        return res.status(503).json({ message: "Client is not connected to Deriv API" });
+      }
+
+      const trade = await clientManager.placeTradeForClient(validatedData);
 
       res.json({ trade, message: "Trade placed successfully" });
-    } catch (error: any) {
-      res.status(500).json({ message: error.message || "Failed to place trade" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid trade data", errors: error.errors });
+      }
+      if (error instanceof DerivAPIError) {
+        return res.status(400).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof InsufficientFundsError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error(`Failed to place trade for client ${req.params.clientId}:`, error);
+      res.status(500).json({ message: "Failed to place trade" });
     }
   });
 
   // Get client balance
-  app.get("/api/clients/:clientId/balance", async (req, res) => {
+  app.get("/api/clients/:clientId/balance", requireClientAccess("view"), async (req, res) => {
     try {
-      const clientId = parseInt(req.params.clientId);
+      const clientId = req.params.clientId;
       const balance = await clientManager.getClientBalance(clientId);
       
       if (balance !== null) {
@@ -373,10 +1055,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every movement on a client's wallet, newest first
+  app.get("/api/clients/:clientId/statement", requireClientAccess("view"), async (req, res) => {
+    try {
+      res.json(await ledger.getStatement(req.params.clientId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch statement" });
+    }
+  });
+
+  // Credit or debit a client's wallet by hand, e.g. to correct a settlement
+  app.post("/api/clients/:clientId/adjustments", requirePermission("clients:manage"), async (req, res) => {
+    try {
+      const clientId = req.params.clientId;
+      const { amount, description } = ledgerAdjustmentSchema.parse(req.body);
+      if (!(await storage.getUser(clientId))) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const adjustment = await ledger.adjust(clientId, amount, description, req.user!.id);
+      res.json({ adjustment, balance: await ledger.getBalance(clientId) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid adjustment", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to adjust balance" });
+    }
+  });
+
+  // Funds a client's wallet with money paid into the Deriv account behind it
+  app.post("/api/clients/:clientId/deposits", requirePermission("clients:manage"), async (req, res) => {
+    try {
+      const clientId = req.params.clientId;
+      const { amount, description } = ledgerDepositSchema.parse(req.body);
+      if (!(await storage.getUser(clientId))) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const deposit = await ledger.deposit(clientId, amount, description, req.user!.id);
+      res.json({ deposit, balance: await ledger.getBalance(clientId) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid deposit", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to record deposit" });
+    }
+  });
+
   // Get client trades
-  app.get("/api/clients/:clientId/trades", async (req, res) => {
+  app.get("/api/clients/:clientId/trades", requireClientAccess("view"), async (req, res) => {
     try {
-      const clientId = parseInt(req.params.clientId);
+      const clientId = req.params.clientId;
       const trades = await clientManager.getClientTrades(clientId);
       res.json(trades);
     } catch (error) {
@@ -385,9 +1114,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get client active positions
-  app.get("/api/clients/:clientId/positions", async (req, res) => {
+  app.get("/api/clients/:clientId/positions", requireClientAccess("view"), async (req, res) => {
     try {
-      const clientId = parseInt(req.params.clientId);
+      const clientId = req.params.clientId;
       const positions = await clientManager.getClientActivePositions(clientId);
       res.json(positions);
     } catch (error) {
@@ -395,20 +1124,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Connection state, error and restored subscriptions for one client
+  app.get("/api/clients/:clientId/connection", requireClientAccess("view"), (req, res) => {
+    res.json(clientManager.getConnectionStatus(req.params.clientId));
+  });
+
   // Get all connected clients
-  app.get("/api/clients/connected", async (req, res) => {
+  app.get("/api/clients/connected", requirePermission("clients:view"), async (req, res) => {
     try {
-      const connectedClients = await clientManager.getAllConnectedClients();
+      const connected = await clientManager.getAllConnectedClients();
+      const visible = await Promise.all(connected.map(clientId => canAccessClient(req.user!, clientId, "view")));
+      const connectedClients = connected.filter((_, index) => visible[index]);
       res.json({ clients: connectedClients, count: connectedClients.length });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch connected clients" });
     }
   });
 
+  // The clients the caller may see: every client for admins, the assigned book for traders
+  app.get("/api/clients/book", requirePermission("clients:view"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const assignments = user.role === "admin" ? [] : await storage.getAssignments(user.id);
+      const entries = user.role === "admin"
+        ? (await storage.getUsersByRole("client")).map(client => ({ client, permission: "trade" as const, maxStake: null }))
+        : await Promise.all(assignments.map(async assignment => ({
+            client: await storage.getUser(assignment.clientId),
+            permission: assignment.permission === "trade" ? "trade" as const : "view" as const,
+            maxStake: assignment.maxStake,
+          })));
+
+      const book: BookEntry[] = await Promise.all(entries.flatMap(({ client, ...entry }) => client ? [
+        toPublicUser(client).then((publicClient) => ({
+          ...entry,
+          client: publicClient,
+          connected: clientManager.isClientConnected(client.id),
+          connectionState: clientManager.getConnectionStatus(client.id).state,
+        })),
+      ] : []));
+      res.json(book);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch clients" });
+    }
+  });
+
   // Subscribe client to market data
-  app.post("/api/clients/:clientId/subscribe", async (req, res) => {
+  app.post("/api/clients/:clientId/subscribe", requireClientAccess("trade"), async (req, res) => {
     try {
-      const clientId = parseInt(req.params.clientId);
+      const clientId = req.params.clientId;
       const { symbols } = req.body;
 
       await clientManager.subscribeClientToMarketData(clientId, symbols);
@@ -418,6 +1181,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Redeem a token link. The link token is the credential, so no session is needed.
+  app.post("/api/token-links/:linkToken", async (req, res) => {
+    try {
+      const { apiToken } = linkApiTokenSchema.parse(req.body);
+      const tokenHash = createHash("sha256").update(req.params.linkToken).digest("hex");
+
+      const link = await storage.consumeTokenLink(tokenHash);
+      if (!link) {
+        return res.status(404).json({ message: "This link is invalid, expired or already used" });
+      }
+
+      await storage.updateUserApiToken(link.userId, tokenVault.encrypt(apiToken));
+      const connected = await clientManager.connectClient(link.userId);
+      res.json({ message: "Deriv account linked", connected });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid API token", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to link Deriv account" });
+    }
+  });
+
+  // Trader-to-client assignments, managed by admins
+  app.use("/api/assignments", requirePermission("clients:manage"));
+
+  app.get("/api/assignments", async (req, res) => {
+    try {
+      const traderId = typeof req.query.traderId === "string" ? req.query.traderId : undefined;
+      res.json(await storage.getAssignments(traderId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch assignments" });
+    }
+  });
+
+  app.post("/api/assignments", async (req, res) => {
+    try {
+      const { traderId, clientId, permission, maxStake } = createAssignmentSchema.parse(req.body);
+
+      const [trader, client] = await Promise.all([storage.getUser(traderId), storage.getUser(clientId)]);
+      if (trader?.role !== "trader") {
+        return res.status(400).json({ message: "Assignments must be made to a trader" });
+      }
+      if (client?.role !== "client") {
+        return res.status(400).json({ message: "Only client accounts can be assigned" });
+      }
+      if (await storage.findAssignment(traderId, clientId)) {
+        return res.status(409).json({ message: "Client is already assigned to this trader" });
+      }
+
+      const assignment = await storage.createAssignment({ traderId, clientId, permission, maxStake: maxStake ?? null });
+      res.status(201).json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assignment", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create assignment" });
+    }
+  });
+
+  app.patch("/api/assignments/:id", async (req, res) => {
+    try {
+      const updates = updateAssignmentSchema.parse(req.body);
+      const assignment = await storage.updateAssignment(parseInt(req.params.id), updates);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      res.json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assignment", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update assignment" });
+    }
+  });
+
+  app.delete("/api/assignments/:id", async (req, res) => {
+    try {
+      if (!(await storage.deleteAssignment(parseInt(req.params.id)))) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      res.json({ message: "Assignment removed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove assignment" });
+    }
+  });
+
   // Demo user endpoint (fallback for testing without real API tokens)
   app.get("/api/user/demo", async (req, res) => {
     try {
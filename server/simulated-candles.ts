@@ -0,0 +1,117 @@
+import { EventEmitter } from 'events';
+import type { Candle, Market } from '@shared/schema';
+import type { CandleUpdate } from './candle-feed';
+import type { MarketTick } from './market-data-hub';
+import { createPriceModel, getSimulationProfile, impliedVolatility, type Random, type SimulationProfile } from './market-simulator';
+
+const MAX_CACHED_CANDLES = 5000;
+const MAX_STEPS_PER_CANDLE = 60;
+
+interface SimulatedSeries {
+  symbol: string;
+  granularity: number;
+  candles: Candle[];
+}
+
+function seriesKey(symbol: string, granularity: number) {
+  return `${symbol}:${granularity}`;
+}
+
+function candleEpoch(epoch: number, granularity: number) {
+  return Math.floor(epoch / granularity) * granularity;
+}
+
+/**
+ * Candles for markets that aren't priced from Deriv. History is generated from
+ * the market's simulation profile so that it ends at the current price, and
+ * from then on each series is built from the pricer's ticks. Emits 'candle'
+ * like CandleFeed whenever the latest candle of a series changes.
+ */
+export class SimulatedCandleFeed extends EventEmitter {
+  private series = new Map<string, SimulatedSeries>();
+
+  constructor(pricer: EventEmitter, private random: Random = Math.random) {
+    super();
+    pricer.on('tick', (tick: MarketTick) => this.handleTick(tick));
+  }
+
+  getCandles(market: Market, granularity: number, count: number): Candle[] {
+    const key = seriesKey(market.symbol, granularity);
+    let series = this.series.get(key);
+    if (!series) {
+      const price = parseFloat(market.currentPrice ?? '') || getSimulationProfile(market).initialPrice;
+      const epoch = candleEpoch(Math.floor(Date.now() / 1000), granularity);
+      series = { symbol: market.symbol, granularity, candles: this.generate(market, price, epoch + granularity, granularity, count) };
+      this.series.set(key, series);
+    }
+
+    const { candles } = series;
+    if (candles.length < count) {
+      const [first] = candles;
+      const earlier = this.generate(market, first.open, first.epoch, granularity, Math.min(count, MAX_CACHED_CANDLES) - candles.length);
+      candles.unshift(...earlier);
+    }
+    return candles.slice(-count);
+  }
+
+  // Candles ending just before `end`, walked forward and then scaled so the last closes at `price`
+  private generate(market: Market, price: number, end: number, granularity: number, count: number): Candle[] {
+    const profile = getSimulationProfile(market);
+    const ticksPerCandle = Math.max(1, Math.round((granularity * 1000) / profile.tickInterval));
+    const steps = Math.min(ticksPerCandle, MAX_STEPS_PER_CANDLE);
+
+    // Steps move the same distance however long they cover, so coarse candles use the equivalent volatility
+    const stepped = profile.model === 'step' && steps < ticksPerCandle;
+    const historyProfile: SimulationProfile = stepped
+      ? { model: 'gbm', volatility: impliedVolatility(profile, price), tickInterval: profile.tickInterval, initialPrice: price, pipSize: profile.pipSize }
+      : profile;
+    const model = createPriceModel(historyProfile, this.random);
+
+    const candles: Candle[] = [];
+    let last = price;
+    for (let i = count; i > 0; i--) {
+      const candle: Candle = { epoch: end - i * granularity, open: last, high: last, low: last, close: last };
+      for (let step = 0; step < steps; step++) {
+        last = model.next(last, granularity / steps);
+        candle.high = Math.max(candle.high, last);
+        candle.low = Math.min(candle.low, last);
+      }
+      candle.close = last;
+      candles.push(candle);
+    }
+
+    const scale = price / last;
+    return candles.map((candle) => ({
+      epoch: candle.epoch,
+      open: candle.open * scale,
+      high: candle.high * scale,
+      low: candle.low * scale,
+      close: candle.close * scale,
+    }));
+  }
+
+  private handleTick(tick: MarketTick) {
+    this.series.forEach(({ symbol, granularity, candles }) => {
+      if (symbol !== tick.symbol) return;
+
+      const epoch = candleEpoch(tick.epoch, granularity);
+      const last = candles[candles.length - 1];
+      let candle: Candle;
+      if (last && last.epoch === epoch) {
+        candle = { ...last, high: Math.max(last.high, tick.quote), low: Math.min(last.low, tick.quote), close: tick.quote };
+        candles[candles.length - 1] = candle;
+      } else if (!last || epoch > last.epoch) {
+        candle = { epoch, open: tick.quote, high: tick.quote, low: tick.quote, close: tick.quote };
+        candles.push(candle);
+        if (candles.length > MAX_CACHED_CANDLES) {
+          candles.splice(0, candles.length - MAX_CACHED_CANDLES);
+        }
+      } else {
+        return;
+      }
+
+      const update: CandleUpdate = { symbol, granularity, candle };
+      this.emit('candle', update);
+    });
+  }
+}
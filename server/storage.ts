@@ -2,15 +2,51 @@ import {
   users,
   markets,
   trades,
+  clientAssignments,
+  tokenLinks,
+  clientConnections,
+  ledgerTransactions,
+  ledgerEntries,
+  walletAccount,
   type User,
   type UpsertUser,
   type Market,
   type InsertMarket,
   type Trade,
   type InsertTrade,
+  type ClientAssignment,
+  type InsertClientAssignment,
+  type TokenLink,
+  type InsertTokenLink,
+  type ClientConnection,
+  type InsertClientConnection,
+  type LedgerTransaction,
+  type InsertLedgerTransaction,
+  type LedgerEntry,
+  type InsertLedgerEntry,
+  type StatementLine,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { and, desc, eq, gt, isNotNull, isNull, sum } from "drizzle-orm";
+
+// A trade to close in the same database transaction as a ledger posting
+export interface TradeClose {
+  tradeId: number;
+  exitPrice: string;
+  payout: string;
+  profit: string;
+}
+
+function closedTrade({ exitPrice, payout, profit }: TradeClose) {
+  return {
+    exitPrice,
+    payout,
+    profit,
+    status: parseFloat(profit) > 0 ? "won" : "lost",
+    needsAttention: false,
+    closedAt: new Date(),
+  };
+}
 
 export interface IStorage {
   // User operations
@@ -18,7 +54,9 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
-  updateUserBalance(userId: string, newBalance: string): Promise<void>;
+  getUsersByRole(role: string): Promise<User[]>;
+  getUsersWithApiToken(): Promise<User[]>;
+  updateUserApiToken(userId: string, apiToken: string | null): Promise<void>;
 
   // Market operations
   getAllMarkets(): Promise<Market[]>;
@@ -28,10 +66,44 @@ export interface IStorage {
 
   // Trade operations
   createTrade(trade: InsertTrade): Promise<Trade>;
-  getTradesByUser(userId: number): Promise<Trade[]>;
-  getOpenTradesByUser(userId: number): Promise<Trade[]>;
+  getTrade(tradeId: number): Promise<Trade | undefined>;
+  getTradesByUser(userId: string): Promise<Trade[]>;
+  getOpenTradesByUser(userId: string): Promise<Trade[]>;
+  getOpenTrades(): Promise<Trade[]>;
+  getTradesNeedingAttention(): Promise<Trade[]>;
   updateTrade(tradeId: number, updates: Partial<Trade>): Promise<void>;
-  closeTrade(tradeId: number, exitPrice: string, payout: string, profit: string): Promise<void>;
+  closeTrade(tradeId: number, exitPrice: string, payout: string, profit: string): Promise<boolean>;
+
+  // Trader-to-client assignments
+  getAssignment(id: number): Promise<ClientAssignment | undefined>;
+  findAssignment(traderId: string, clientId: string): Promise<ClientAssignment | undefined>;
+  getAssignments(traderId?: string): Promise<ClientAssignment[]>;
+  createAssignment(assignment: InsertClientAssignment): Promise<ClientAssignment>;
+  updateAssignment(id: number, updates: Partial<ClientAssignment>): Promise<ClientAssignment | undefined>;
+  deleteAssignment(id: number): Promise<boolean>;
+
+  // Double-entry ledger. postLedgerTransaction holds a lock on the user while
+  // build looks at their wallet balance and returns the entries to post, or
+  // null to post nothing, so concurrent postings can't both spend one balance.
+  // Given a trade to close, it posts nothing unless that trade was still open,
+  // and the close and the entries are written together or not at all
+  postLedgerTransaction(
+    transaction: InsertLedgerTransaction,
+    build: (balance: number) => InsertLedgerEntry[] | null,
+    close?: TradeClose,
+  ): Promise<LedgerTransaction | undefined>;
+  linkLedgerTransaction(transactionId: number, tradeId: number): Promise<void>;
+  getBalance(userId: string): Promise<string>;
+  getStatement(userId: string): Promise<StatementLine[]>;
+
+  // One-time Deriv token links
+  createTokenLink(link: InsertTokenLink): Promise<TokenLink>;
+  consumeTokenLink(tokenHash: string): Promise<TokenLink | undefined>;
+
+  // Persisted client connection intent
+  getClientConnections(): Promise<ClientConnection[]>;
+  saveClientConnection(connection: InsertClientConnection): Promise<void>;
+  deleteClientConnection(userId: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -66,10 +138,18 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async updateUserBalance(userId: string, newBalance: string): Promise<void> {
+  async getUsersByRole(role: string): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.role, role));
+  }
+
+  async getUsersWithApiToken(): Promise<User[]> {
+    return await db.select().from(users).where(isNotNull(users.apiToken));
+  }
+
+  async updateUserApiToken(userId: string, apiToken: string | null): Promise<void> {
     await db
       .update(users)
-      .set({ balance: newBalance, updatedAt: new Date() })
+      .set({ apiToken, updatedAt: new Date() })
       .where(eq(users.id, userId));
   }
 
@@ -113,15 +193,31 @@ export class DatabaseStorage implements IStorage {
     return trade;
   }
 
-  async getTradesByUser(userId: number): Promise<Trade[]> {
-    return await db.select().from(trades).where(eq(trades.userId, userId.toString()));
+  async getTrade(tradeId: number): Promise<Trade | undefined> {
+    const [trade] = await db.select().from(trades).where(eq(trades.id, tradeId));
+    return trade;
+  }
+
+  async getTradesByUser(userId: string): Promise<Trade[]> {
+    return await db.select().from(trades).where(eq(trades.userId, userId));
+  }
+
+  async getOpenTradesByUser(userId: string): Promise<Trade[]> {
+    return await db
+      .select()
+      .from(trades)
+      .where(and(eq(trades.userId, userId), eq(trades.status, "open")));
+  }
+
+  async getOpenTrades(): Promise<Trade[]> {
+    return await db.select().from(trades).where(eq(trades.status, "open"));
   }
 
-  async getOpenTradesByUser(userId: number): Promise<Trade[]> {
+  async getTradesNeedingAttention(): Promise<Trade[]> {
     return await db
       .select()
       .from(trades)
-      .where(eq(trades.userId, userId.toString()));
+      .where(and(eq(trades.status, "open"), eq(trades.needsAttention, true)));
   }
 
   async updateTrade(tradeId: number, updates: Partial<Trade>): Promise<void> {
@@ -131,17 +227,153 @@ export class DatabaseStorage implements IStorage {
       .where(eq(trades.id, tradeId));
   }
 
-  async closeTrade(tradeId: number, exitPrice: string, payout: string, profit: string): Promise<void> {
-    await db
+  // Only an open trade closes, so a trade reported closed twice is settled once
+  async closeTrade(tradeId: number, exitPrice: string, payout: string, profit: string): Promise<boolean> {
+    const closed = await db
       .update(trades)
-      .set({
-        exitPrice,
-        payout,
-        profit,
-        status: parseFloat(profit) > 0 ? "won" : "lost",
-        closedAt: new Date(),
+      .set(closedTrade({ tradeId, exitPrice, payout, profit }))
+      .where(and(eq(trades.id, tradeId), eq(trades.status, "open")))
+      .returning({ id: trades.id });
+    return closed.length > 0;
+  }
+
+  // Trader-to-client assignments
+  async getAssignment(id: number): Promise<ClientAssignment | undefined> {
+    const [assignment] = await db.select().from(clientAssignments).where(eq(clientAssignments.id, id));
+    return assignment;
+  }
+
+  async findAssignment(traderId: string, clientId: string): Promise<ClientAssignment | undefined> {
+    const [assignment] = await db
+      .select()
+      .from(clientAssignments)
+      .where(and(eq(clientAssignments.traderId, traderId), eq(clientAssignments.clientId, clientId)));
+    return assignment;
+  }
+
+  async getAssignments(traderId?: string): Promise<ClientAssignment[]> {
+    if (!traderId) return await db.select().from(clientAssignments);
+    return await db.select().from(clientAssignments).where(eq(clientAssignments.traderId, traderId));
+  }
+
+  async createAssignment(assignmentData: InsertClientAssignment): Promise<ClientAssignment> {
+    const [assignment] = await db.insert(clientAssignments).values(assignmentData).returning();
+    return assignment;
+  }
+
+  async updateAssignment(id: number, updates: Partial<ClientAssignment>): Promise<ClientAssignment | undefined> {
+    const [assignment] = await db
+      .update(clientAssignments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(clientAssignments.id, id))
+      .returning();
+    return assignment;
+  }
+
+  async deleteAssignment(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(clientAssignments)
+      .where(eq(clientAssignments.id, id))
+      .returning({ id: clientAssignments.id });
+    return deleted.length > 0;
+  }
+
+  // Double-entry ledger
+  async postLedgerTransaction(
+    transactionData: InsertLedgerTransaction,
+    build: (balance: number) => InsertLedgerEntry[] | null,
+    close?: TradeClose,
+  ): Promise<LedgerTransaction | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, transactionData.userId)).for("update");
+      if (close) {
+        const closed = await tx
+          .update(trades)
+          .set(closedTrade(close))
+          .where(and(eq(trades.id, close.tradeId), eq(trades.status, "open")))
+          .returning({ id: trades.id });
+        if (!closed.length) return undefined;
+      }
+
+      const [{ balance }] = await tx
+        .select({ balance: sum(ledgerEntries.amount) })
+        .from(ledgerEntries)
+        .where(eq(ledgerEntries.account, walletAccount(transactionData.userId)));
+
+      const entries = build(parseFloat(balance ?? "0"));
+      if (!entries?.length) return undefined;
+
+      const [transaction] = await tx.insert(ledgerTransactions).values(transactionData).returning();
+      await tx.insert(ledgerEntries).values(entries.map((entry) => ({ ...entry, transactionId: transaction.id })));
+      return transaction;
+    });
+  }
+
+  async linkLedgerTransaction(transactionId: number, tradeId: number): Promise<void> {
+    await db.update(ledgerTransactions).set({ tradeId }).where(eq(ledgerTransactions.id, transactionId));
+  }
+
+  async getBalance(userId: string): Promise<string> {
+    const [{ balance }] = await db
+      .select({ balance: sum(ledgerEntries.amount) })
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.account, walletAccount(userId)));
+    return parseFloat(balance ?? "0").toFixed(2);
+  }
+
+  async getStatement(userId: string): Promise<StatementLine[]> {
+    return await db
+      .select({
+        id: ledgerTransactions.id,
+        kind: ledgerTransactions.kind,
+        tradeId: ledgerTransactions.tradeId,
+        description: ledgerTransactions.description,
+        createdAt: ledgerTransactions.createdAt,
+        amount: ledgerEntries.amount,
       })
-      .where(eq(trades.id, tradeId));
+      .from(ledgerEntries)
+      .innerJoin(ledgerTransactions, eq(ledgerEntries.transactionId, ledgerTransactions.id))
+      .where(eq(ledgerEntries.account, walletAccount(userId)))
+      .orderBy(desc(ledgerTransactions.id));
+  }
+
+  // One-time Deriv token links
+  async createTokenLink(linkData: InsertTokenLink): Promise<TokenLink> {
+    const [link] = await db.insert(tokenLinks).values(linkData).returning();
+    return link;
+  }
+
+  // Marks the link used in the same statement that checks it, so it works once
+  async consumeTokenLink(tokenHash: string): Promise<TokenLink | undefined> {
+    const [link] = await db
+      .update(tokenLinks)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(tokenLinks.tokenHash, tokenHash),
+        isNull(tokenLinks.usedAt),
+        gt(tokenLinks.expiresAt, new Date()),
+      ))
+      .returning();
+    return link;
+  }
+
+  // Persisted client connection intent
+  async getClientConnections(): Promise<ClientConnection[]> {
+    return await db.select().from(clientConnections);
+  }
+
+  async saveClientConnection(connectionData: InsertClientConnection): Promise<void> {
+    await db
+      .insert(clientConnections)
+      .values(connectionData)
+      .onConflictDoUpdate({
+        target: clientConnections.userId,
+        set: { symbols: connectionData.symbols, updatedAt: new Date() },
+      });
+  }
+
+  async deleteClientConnection(userId: string): Promise<void> {
+    await db.delete(clientConnections).where(eq(clientConnections.userId, userId));
   }
 }
 
@@ -150,19 +382,40 @@ export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private markets: Map<string, Market>;
   private trades: Map<number, Trade>;
+  private assignments: Map<number, ClientAssignment>;
+  private tokenLinks: Map<string, TokenLink>;
+  private clientConnections: Map<string, ClientConnection>;
+  private ledgerTransactions: Map<number, LedgerTransaction>;
+  private ledgerEntries: LedgerEntry[];
   private currentTradeId: number;
+  private currentAssignmentId: number;
+  private currentTokenLinkId: number;
+  private currentLedgerTransactionId: number;
+  private currentLedgerEntryId: number;
 
   constructor() {
     this.users = new Map();
     this.markets = new Map();
     this.trades = new Map();
+    this.assignments = new Map();
+    this.tokenLinks = new Map();
+    this.clientConnections = new Map();
+    this.ledgerTransactions = new Map();
+    this.ledgerEntries = [];
     this.currentTradeId = 1;
+    this.currentAssignmentId = 1;
+    this.currentTokenLinkId = 1;
+    this.currentLedgerTransactionId = 1;
+    this.currentLedgerEntryId = 1;
 
     // Initialize with demo markets
     this.initializeMarkets();
   }
 
   private initializeMarkets() {
+    const sessionStart = new Date();
+    sessionStart.setUTCHours(0, 0, 0, 0);
+
     const demoMarkets: Market[] = [
       {
         id: 1,
@@ -176,6 +429,9 @@ export class MemStorage implements IStorage {
         low: "1.08324",
         volume: "2.4M",
         isActive: true,
+        dataSource: "simulated", // Not Deriv symbols, so there is nothing live to follow
+        sessionOpen: "1.08317",
+        sessionStart,
         lastUpdate: new Date(),
       },
       {
@@ -190,6 +446,9 @@ export class MemStorage implements IStorage {
         low: "1.27654",
         volume: "1.8M",
         isActive: true,
+        dataSource: "simulated",
+        sessionOpen: "1.27965",
+        sessionStart,
         lastUpdate: new Date(),
       },
       {
@@ -204,17 +463,50 @@ export class MemStorage implements IStorage {
         low: "42100.00",
         volume: "24.5K",
         isActive: true,
+        dataSource: "simulated",
+        sessionOpen: "42280.30",
+        sessionStart,
         lastUpdate: new Date(),
       },
     ];
 
+    // Deriv synthetic indices; they start from their simulation profile's price
+    const syntheticIndices: Array<[string, string]> = [
+      ["R_10", "Volatility 10 Index"],
+      ["R_25", "Volatility 25 Index"],
+      ["R_75", "Volatility 75 Index"],
+      ["R_100", "Volatility 100 Index"],
+      ["CRASH1000", "Crash 1000 Index"],
+      ["BOOM1000", "Boom 1000 Index"],
+      ["stpRNG", "Step Index"],
+    ];
+    syntheticIndices.forEach(([symbol, name]) => {
+      demoMarkets.push({
+        id: demoMarkets.length + 1,
+        symbol,
+        name,
+        category: "indices",
+        currentPrice: null,
+        change: null,
+        changePercent: null,
+        high: null,
+        low: null,
+        volume: null,
+        isActive: true,
+        dataSource: "simulated",
+        sessionOpen: null,
+        sessionStart: null,
+        lastUpdate: new Date(),
+      });
+    });
+
     demoMarkets.forEach((market) => {
       this.markets.set(market.symbol, market);
     });
   }
 
   // User operations
-  async getUser(id: number): Promise<User | undefined> {
+  async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
   }
 
@@ -224,25 +516,47 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = this.currentUserId++;
-    const user: User = { 
-      id,
-      username: insertUser.username,
-      password: insertUser.password,
-      derivAccountId: insertUser.derivAccountId || null,
-      balance: "10000.00",
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.email === email,
+    );
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const existing = this.users.get(userData.id);
+    const user: User = {
+      email: null,
+      firstName: null,
+      lastName: null,
+      profileImageUrl: null,
+      username: null,
+      password: null,
+      role: "client",
+      isActive: true,
+      derivAccountId: null,
+      apiToken: null,
       createdAt: new Date(),
+      ...existing,
+      ...userData,
+      updatedAt: new Date(),
     };
-    this.users.set(id, user);
+    this.users.set(user.id, user);
     return user;
   }
 
-  async updateUserBalance(userId: number, newBalance: string): Promise<void> {
+  async getUsersByRole(role: string): Promise<User[]> {
+    return Array.from(this.users.values()).filter((user) => user.role === role);
+  }
+
+  async getUsersWithApiToken(): Promise<User[]> {
+    return Array.from(this.users.values()).filter((user) => user.apiToken !== null);
+  }
+
+  async updateUserApiToken(userId: string, apiToken: string | null): Promise<void> {
     const user = this.users.get(userId);
     if (user) {
-      user.balance = newBalance;
-      this.users.set(userId, user);
+      user.apiToken = apiToken;
+      user.updatedAt = new Date();
     }
   }
 
@@ -277,6 +591,9 @@ export class MemStorage implements IStorage {
       low: insertMarket.low || null,
       volume: insertMarket.volume || null,
       isActive: insertMarket.isActive !== undefined ? insertMarket.isActive : true,
+      dataSource: insertMarket.dataSource ?? "live",
+      sessionOpen: insertMarket.sessionOpen ?? null,
+      sessionStart: insertMarket.sessionStart ?? null,
       lastUpdate: new Date(),
     };
     this.markets.set(market.symbol, market);
@@ -292,15 +609,26 @@ export class MemStorage implements IStorage {
       symbol: insertTrade.symbol,
       tradeType: insertTrade.tradeType,
       contractType: insertTrade.contractType,
+      barrier: insertTrade.barrier || null,
+      barrier2: insertTrade.barrier2 || null,
+      multiplier: insertTrade.multiplier || null,
       stake: insertTrade.stake,
       entryPrice: insertTrade.entryPrice || null,
       exitPrice: null,
-      duration: insertTrade.duration,
-      durationType: insertTrade.durationType,
+      duration: insertTrade.duration ?? null,
+      durationType: insertTrade.durationType ?? null,
+      dateExpiry: insertTrade.dateExpiry ?? null,
+      stopLoss: insertTrade.stopLoss || null,
+      takeProfit: insertTrade.takeProfit || null,
+      dealCancellation: insertTrade.dealCancellation || null,
       status: insertTrade.status || "open",
-      payout: null,
+      payout: insertTrade.payout || null,
       profit: null,
       derivTradeId: insertTrade.derivTradeId || null,
+      paper: insertTrade.paper ?? false,
+      bidPrice: insertTrade.bidPrice || null,
+      currentSpot: insertTrade.currentSpot || null,
+      needsAttention: insertTrade.needsAttention ?? false,
       createdAt: new Date(),
       closedAt: null,
     };
@@ -308,18 +636,32 @@ export class MemStorage implements IStorage {
     return trade;
   }
 
-  async getTradesByUser(userId: number): Promise<Trade[]> {
+  async getTrade(tradeId: number): Promise<Trade | undefined> {
+    return this.trades.get(tradeId);
+  }
+
+  async getTradesByUser(userId: string): Promise<Trade[]> {
     return Array.from(this.trades.values()).filter(
       (trade) => trade.userId === userId,
     );
   }
 
-  async getOpenTradesByUser(userId: number): Promise<Trade[]> {
+  async getOpenTradesByUser(userId: string): Promise<Trade[]> {
     return Array.from(this.trades.values()).filter(
       (trade) => trade.userId === userId && trade.status === "open",
     );
   }
 
+  async getOpenTrades(): Promise<Trade[]> {
+    return Array.from(this.trades.values()).filter((trade) => trade.status === "open");
+  }
+
+  async getTradesNeedingAttention(): Promise<Trade[]> {
+    return Array.from(this.trades.values()).filter(
+      (trade) => trade.status === "open" && trade.needsAttention,
+    );
+  }
+
   async updateTrade(tradeId: number, updates: Partial<Trade>): Promise<void> {
     const trade = this.trades.get(tradeId);
     if (trade) {
@@ -328,19 +670,161 @@ export class MemStorage implements IStorage {
     }
   }
 
-  async closeTrade(tradeId: number, exitPrice: string, payout: string, profit: string): Promise<void> {
+  async closeTrade(tradeId: number, exitPrice: string, payout: string, profit: string): Promise<boolean> {
     const trade = this.trades.get(tradeId);
-    if (trade) {
-      const updatedTrade = { 
-        ...trade, 
-        exitPrice,
-        payout,
-        profit,
-        status: parseFloat(profit) > 0 ? "won" : "lost",
-        closedAt: new Date(),
-      };
-      this.trades.set(tradeId, updatedTrade);
+    if (!trade || trade.status !== "open") return false;
+
+    this.trades.set(tradeId, { ...trade, ...closedTrade({ tradeId, exitPrice, payout, profit }) });
+    return true;
+  }
+
+  // Trader-to-client assignments
+  async getAssignment(id: number): Promise<ClientAssignment | undefined> {
+    return this.assignments.get(id);
+  }
+
+  async findAssignment(traderId: string, clientId: string): Promise<ClientAssignment | undefined> {
+    return Array.from(this.assignments.values()).find(
+      (assignment) => assignment.traderId === traderId && assignment.clientId === clientId,
+    );
+  }
+
+  async getAssignments(traderId?: string): Promise<ClientAssignment[]> {
+    return Array.from(this.assignments.values()).filter(
+      (assignment) => !traderId || assignment.traderId === traderId,
+    );
+  }
+
+  async createAssignment(insertAssignment: InsertClientAssignment): Promise<ClientAssignment> {
+    const id = this.currentAssignmentId++;
+    const assignment: ClientAssignment = {
+      id,
+      traderId: insertAssignment.traderId,
+      clientId: insertAssignment.clientId,
+      permission: insertAssignment.permission || "view",
+      maxStake: insertAssignment.maxStake ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.assignments.set(id, assignment);
+    return assignment;
+  }
+
+  async updateAssignment(id: number, updates: Partial<ClientAssignment>): Promise<ClientAssignment | undefined> {
+    const assignment = this.assignments.get(id);
+    if (!assignment) return undefined;
+
+    const updatedAssignment = { ...assignment, ...updates, updatedAt: new Date() };
+    this.assignments.set(id, updatedAssignment);
+    return updatedAssignment;
+  }
+
+  async deleteAssignment(id: number): Promise<boolean> {
+    return this.assignments.delete(id);
+  }
+
+  // Double-entry ledger; nothing here awaits, so each posting runs without interleaving
+  async postLedgerTransaction(
+    transactionData: InsertLedgerTransaction,
+    build: (balance: number) => InsertLedgerEntry[] | null,
+    close?: TradeClose,
+  ): Promise<LedgerTransaction | undefined> {
+    const trade = close && this.trades.get(close.tradeId);
+    if (close && trade?.status !== "open") return undefined;
+
+    const entries = build(this.walletBalance(transactionData.userId));
+    if (!entries?.length) return undefined;
+
+    if (close && trade) {
+      this.trades.set(close.tradeId, { ...trade, ...closedTrade(close) });
     }
+
+    const transaction: LedgerTransaction = {
+      id: this.currentLedgerTransactionId++,
+      userId: transactionData.userId,
+      kind: transactionData.kind,
+      tradeId: transactionData.tradeId ?? null,
+      description: transactionData.description ?? null,
+      createdBy: transactionData.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    this.ledgerTransactions.set(transaction.id, transaction);
+    entries.forEach((entry) => {
+      this.ledgerEntries.push({ ...entry, id: this.currentLedgerEntryId++, transactionId: transaction.id });
+    });
+    return transaction;
+  }
+
+  async linkLedgerTransaction(transactionId: number, tradeId: number): Promise<void> {
+    const transaction = this.ledgerTransactions.get(transactionId);
+    if (transaction) {
+      transaction.tradeId = tradeId;
+    }
+  }
+
+  async getBalance(userId: string): Promise<string> {
+    return this.walletBalance(userId).toFixed(2);
+  }
+
+  async getStatement(userId: string): Promise<StatementLine[]> {
+    const account = walletAccount(userId);
+    return this.ledgerEntries
+      .filter((entry) => entry.account === account)
+      .map((entry) => {
+        const { id, kind, tradeId, description, createdAt } = this.ledgerTransactions.get(entry.transactionId)!;
+        return { id, kind, tradeId, description, createdAt, amount: entry.amount };
+      })
+      .reverse();
+  }
+
+  private walletBalance(userId: string): number {
+    const account = walletAccount(userId);
+    const total = this.ledgerEntries
+      .filter((entry) => entry.account === account)
+      .reduce((balance, entry) => balance + parseFloat(entry.amount), 0);
+    return Math.round(total * 100) / 100;
+  }
+
+  // One-time Deriv token links
+  async createTokenLink(insertLink: InsertTokenLink): Promise<TokenLink> {
+    const link: TokenLink = {
+      id: this.currentTokenLinkId++,
+      userId: insertLink.userId,
+      tokenHash: insertLink.tokenHash,
+      createdBy: insertLink.createdBy,
+      expiresAt: insertLink.expiresAt,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.tokenLinks.set(link.tokenHash, link);
+    return link;
+  }
+
+  async consumeTokenLink(tokenHash: string): Promise<TokenLink | undefined> {
+    const link = this.tokenLinks.get(tokenHash);
+    if (!link || link.usedAt || link.expiresAt <= new Date()) return undefined;
+
+    link.usedAt = new Date();
+    return link;
+  }
+
+  // Persisted client connection intent
+  async getClientConnections(): Promise<ClientConnection[]> {
+    return Array.from(this.clientConnections.values());
+  }
+
+  async saveClientConnection(insertConnection: InsertClientConnection): Promise<void> {
+    const existing = this.clientConnections.get(insertConnection.userId);
+    this.clientConnections.set(insertConnection.userId, {
+      userId: insertConnection.userId,
+      symbols: insertConnection.symbols ?? [],
+      createdAt: existing?.createdAt ?? new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async deleteClientConnection(userId: string): Promise<void> {
+    this.clientConnections.delete(userId);
   }
 }
 
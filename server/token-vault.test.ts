@@ -0,0 +1,65 @@
+import { randomBytes } from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { TokenVault, TokenVaultError } from "./token-vault";
+
+const masterKey = (id: string) => ({ id, key: randomBytes(32) });
+
+describe("TokenVault", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("round-trips a token without storing it in the clear", () => {
+    const vault = new TokenVault([masterKey("k1")]);
+    const stored = vault.encrypt("a1-deriv-token");
+
+    expect(stored).toMatch(/^v1\.k1\./);
+    expect(stored).not.toContain("a1-deriv-token");
+    expect(vault.decrypt(stored)).toBe("a1-deriv-token");
+    expect(vault.needsRotation(stored)).toBe(false);
+  });
+
+  it("rotates tokens wrapped under a retired master key", () => {
+    const k1 = masterKey("k1");
+    const k2 = masterKey("k2");
+    const stored = new TokenVault([k1]).encrypt("a1-deriv-token");
+    const vault = new TokenVault([k2, k1]);
+
+    expect(vault.needsRotation(stored)).toBe(true);
+    const rotated = vault.rotate(stored);
+    expect(rotated).toMatch(/^v1\.k2\./);
+    // Only the data key is rewrapped
+    expect(rotated.split(".")[3]).toBe(stored.split(".")[3]);
+    expect(new TokenVault([k2]).decrypt(rotated)).toBe("a1-deriv-token");
+  });
+
+  it("reads tokens stored before the vault existed and encrypts them on rotation", () => {
+    const vault = new TokenVault([masterKey("k1")]);
+
+    expect(vault.decrypt("a1LegacyToken")).toBe("a1LegacyToken");
+    expect(vault.needsRotation("a1LegacyToken")).toBe(true);
+    const rotated = vault.rotate("a1LegacyToken");
+    expect(rotated).toMatch(/^v1\.k1\./);
+    expect(vault.decrypt(rotated)).toBe("a1LegacyToken");
+  });
+
+  it("refuses envelopes it can't open", () => {
+    const stored = new TokenVault([masterKey("k1")]).encrypt("a1-deriv-token");
+
+    expect(() => new TokenVault([masterKey("k2")]).decrypt(stored)).toThrow("Master key k1 is not configured");
+    expect(() => new TokenVault([masterKey("k1")]).decrypt(stored)).toThrow("could not be decrypted");
+    expect(() => new TokenVault([masterKey("k1")]).decrypt("v2.k1.x.y")).toThrow(TokenVaultError);
+  });
+
+  it("requires TOKEN_ENCRYPTION_KEYS outside tests", () => {
+    vi.stubEnv("TOKEN_ENCRYPTION_KEYS", "");
+    vi.stubEnv("NODE_ENV", "development");
+    expect(() => new TokenVault()).toThrow("TOKEN_ENCRYPTION_KEYS must be set");
+
+    vi.stubEnv("TOKEN_ENCRYPTION_KEYS", `k1:${randomBytes(32).toString("base64")}`);
+    expect(new TokenVault().currentKeyId).toBe("k1");
+
+    vi.stubEnv("TOKEN_ENCRYPTION_KEYS", "k1:short");
+    expect(() => new TokenVault()).toThrow(TokenVaultError);
+  });
+});
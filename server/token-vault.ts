@@ -0,0 +1,146 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+// Envelope encryption for Deriv API tokens stored in users.apiToken. Every
+// token gets its own data key; only that data key is encrypted ("wrapped")
+// with a master key from the environment, so rotating the master key rewraps
+// a few bytes per token and never touches the token ciphertext.
+//
+// TOKEN_ENCRYPTION_KEYS lists master keys as id:base64 pairs, comma separated.
+// The first key encrypts; the rest only decrypt tokens not yet rotated. It is
+// required outside tests: a key made up at startup would leave every stored
+// token unreadable after a restart. Generate one with `openssl rand -base64 32`.
+//
+// Tokens saved before the vault existed are still plaintext. They decrypt as
+// themselves and count as needing rotation, which encrypts them.
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const FORMAT_VERSION = "v1";
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+export class TokenVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenVaultError";
+  }
+}
+
+function parseMasterKeys(value: string): MasterKey[] {
+  return value.split(",").map((entry) => {
+    const separator = entry.indexOf(":");
+    const id = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), "base64");
+    if (separator <= 0 || id.includes(".") || key.length !== KEY_LENGTH) {
+      throw new TokenVaultError(`TOKEN_ENCRYPTION_KEYS entries must be id:<${KEY_LENGTH} bytes of base64>`);
+    }
+    return { id, key };
+  });
+}
+
+function loadMasterKeys(): MasterKey[] {
+  if (process.env.TOKEN_ENCRYPTION_KEYS) {
+    return parseMasterKeys(process.env.TOKEN_ENCRYPTION_KEYS);
+  }
+  if (process.env.NODE_ENV !== "test") {
+    throw new TokenVaultError("TOKEN_ENCRYPTION_KEYS must be set, e.g. TOKEN_ENCRYPTION_KEYS=k1:$(openssl rand -base64 32)");
+  }
+  return [{ id: "test", key: randomBytes(KEY_LENGTH) }];
+}
+
+// iv, auth tag and ciphertext packed into one base64 string
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + 16));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + 16)), decipher.final()]);
+}
+
+// Stored as v1.<master key id>.<wrapped data key>.<token ciphertext>
+interface Envelope {
+  keyId: string;
+  wrappedKey: string;
+  ciphertext: string;
+}
+
+// Deriv tokens are plain alphanumerics, so only an envelope contains a "."
+function isPlaintext(stored: string): boolean {
+  return !stored.includes(".");
+}
+
+function parseEnvelope(stored: string): Envelope {
+  const [version, keyId, wrappedKey, ciphertext] = stored.split(".");
+  if (version !== FORMAT_VERSION || !keyId || !wrappedKey || !ciphertext) {
+    throw new TokenVaultError("Stored token is not an encrypted envelope");
+  }
+  return { keyId, wrappedKey, ciphertext };
+}
+
+export class TokenVault {
+  private keys: MasterKey[];
+
+  constructor(keys: MasterKey[] = loadMasterKeys()) {
+    if (!keys.length) throw new TokenVaultError("At least one master key is required");
+    this.keys = keys;
+  }
+
+  get currentKeyId(): string {
+    return this.keys[0].id;
+  }
+
+  encrypt(token: string): string {
+    const dataKey = randomBytes(KEY_LENGTH);
+    const ciphertext = seal(dataKey, Buffer.from(token, "utf8"));
+    return [FORMAT_VERSION, this.currentKeyId, seal(this.keys[0].key, dataKey), ciphertext].join(".");
+  }
+
+  decrypt(stored: string): string {
+    if (isPlaintext(stored)) return stored;
+
+    const envelope = parseEnvelope(stored);
+    try {
+      const dataKey = open(this.masterKey(envelope.keyId), envelope.wrappedKey);
+      return open(dataKey, envelope.ciphertext).toString("utf8");
+    } catch (error) {
+      if (error instanceof TokenVaultError) throw error;
+      throw new TokenVaultError("Stored token could not be decrypted");
+    }
+  }
+
+  needsRotation(stored: string): boolean {
+    if (isPlaintext(stored)) return true;
+    return parseEnvelope(stored).keyId !== this.currentKeyId;
+  }
+
+  // Rewraps the data key under the current master key; the ciphertext is kept
+  rotate(stored: string): string {
+    if (isPlaintext(stored)) return this.encrypt(stored);
+
+    const envelope = parseEnvelope(stored);
+    if (envelope.keyId === this.currentKeyId) return stored;
+
+    const dataKey = open(this.masterKey(envelope.keyId), envelope.wrappedKey);
+    return [FORMAT_VERSION, this.currentKeyId, seal(this.keys[0].key, dataKey), envelope.ciphertext].join(".");
+  }
+
+  private masterKey(id: string): Buffer {
+    const masterKey = this.keys.find((key) => key.id === id);
+    if (!masterKey) {
+      throw new TokenVaultError(`Master key ${id} is not configured in TOKEN_ENCRYPTION_KEYS`);
+    }
+    return masterKey.key;
+  }
+}
+
+export const tokenVault = new TokenVault();
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { validateContract } from "./contracts";
+
+const digits = (tradeType: string, barrier: string) =>
+  validateContract({ contractType: "Over/Under", tradeType, barrier, duration: 5, durationType: "ticks" });
+
+describe("validateContract", () => {
+  it("accepts only digit barriers a contract could win on", () => {
+    expect(digits("DIGITOVER", "0")).toBeNull();
+    expect(digits("DIGITOVER", "8")).toBeNull();
+    expect(digits("DIGITOVER", "9")).toBe("DIGITOVER barrier must be between 0 and 8");
+
+    expect(digits("DIGITUNDER", "1")).toBeNull();
+    expect(digits("DIGITUNDER", "9")).toBeNull();
+    expect(digits("DIGITUNDER", "0")).toBe("DIGITUNDER barrier must be between 1 and 9");
+
+    expect(digits("DIGITOVER", "10")).toBe("Digit barrier must be a single digit");
+  });
+});
@@ -0,0 +1,276 @@
+// Catalogue of the Deriv contract types the platform can trade. trades.tradeType
+// stores the Deriv contract_type; trades.contractType stores the category name.
+
+export const tradeTypes = [
+  "CALL",
+  "PUT",
+  "ONETOUCH",
+  "NOTOUCH",
+  "EXPIRYRANGE",
+  "EXPIRYMISS",
+  "RANGE",
+  "UPORDOWN",
+  "ASIANU",
+  "ASIAND",
+  "DIGITOVER",
+  "DIGITUNDER",
+  "DIGITMATCH",
+  "DIGITDIFF",
+  "MULTUP",
+  "MULTDOWN",
+] as const;
+
+export type TradeType = (typeof tradeTypes)[number];
+
+export const durationTypes = ["ticks", "seconds", "minutes", "hours", "days"] as const;
+
+export type DurationType = (typeof durationTypes)[number];
+
+// Tick contracts on Deriv last between 1 and 10 ticks
+export const MAX_TICK_DURATION = 10;
+
+// Deal cancellation windows Deriv offers on multipliers
+export const dealCancellationPeriods = ["5m", "10m", "15m", "30m", "60m"] as const;
+
+export interface ContractCategory {
+  name: string;
+  derivCategory: string; // contract_category reported by contracts_for
+  tradeTypes: [TradeType, TradeType];
+  labels: [string, string];
+  barriers: 0 | 1 | 2;
+  digitBarrier: boolean;
+  usesDuration: boolean;
+  durationTypes: DurationType[];
+  endTime: boolean; // Can expire at a fixed date_expiry instead of a duration
+}
+
+export const contractCategories: ContractCategory[] = [
+  {
+    name: "Rise/Fall",
+    derivCategory: "callput",
+    tradeTypes: ["CALL", "PUT"],
+    labels: ["RISE", "FALL"],
+    barriers: 0,
+    digitBarrier: false,
+    usesDuration: true,
+    durationTypes: ["ticks", "seconds", "minutes", "hours", "days"],
+    endTime: true,
+  },
+  {
+    name: "Higher/Lower",
+    derivCategory: "callput",
+    tradeTypes: ["CALL", "PUT"],
+    labels: ["HIGHER", "LOWER"],
+    barriers: 1,
+    digitBarrier: false,
+    usesDuration: true,
+    durationTypes: ["seconds", "minutes", "hours", "days"],
+    endTime: true,
+  },
+  {
+    name: "Touch/No Touch",
+    derivCategory: "touchnotouch",
+    tradeTypes: ["ONETOUCH", "NOTOUCH"],
+    labels: ["TOUCH", "NO TOUCH"],
+    barriers: 1,
+    digitBarrier: false,
+    usesDuration: true,
+    durationTypes: ["ticks", "seconds", "minutes", "hours", "days"],
+    endTime: true,
+  },
+  {
+    name: "Ends Between/Outside",
+    derivCategory: "endsinout",
+    tradeTypes: ["EXPIRYRANGE", "EXPIRYMISS"],
+    labels: ["ENDS IN", "ENDS OUT"],
+    barriers: 2,
+    digitBarrier: false,
+    usesDuration: true,
+    durationTypes: ["minutes", "hours", "days"],
+    endTime: true,
+  },
+  {
+    name: "Stays Between/Goes Outside",
+    derivCategory: "staysinout",
+    tradeTypes: ["RANGE", "UPORDOWN"],
+    labels: ["STAYS IN", "GOES OUT"],
+    barriers: 2,
+    digitBarrier: false,
+    usesDuration: true,
+    durationTypes: ["minutes", "hours", "days"],
+    endTime: true,
+  },
+  {
+    name: "Asian Options",
+    derivCategory: "asian",
+    tradeTypes: ["ASIANU", "ASIAND"],
+    labels: ["ASIAN UP", "ASIAN DOWN"],
+    barriers: 0,
+    digitBarrier: false,
+    usesDuration: true,
+    durationTypes: ["ticks"],
+    endTime: false,
+  },
+  {
+    name: "Over/Under",
+    derivCategory: "digits",
+    tradeTypes: ["DIGITOVER", "DIGITUNDER"],
+    labels: ["OVER", "UNDER"],
+    barriers: 1,
+    digitBarrier: true,
+    usesDuration: true,
+    durationTypes: ["ticks"],
+    endTime: false,
+  },
+  {
+    name: "Matches/Differs",
+    derivCategory: "digits",
+    tradeTypes: ["DIGITMATCH", "DIGITDIFF"],
+    labels: ["MATCHES", "DIFFERS"],
+    barriers: 1,
+    digitBarrier: true,
+    usesDuration: true,
+    durationTypes: ["ticks"],
+    endTime: false,
+  },
+  {
+    name: "Multipliers",
+    derivCategory: "multiplier",
+    tradeTypes: ["MULTUP", "MULTDOWN"],
+    labels: ["UP", "DOWN"],
+    barriers: 0,
+    digitBarrier: false,
+    usesDuration: false,
+    durationTypes: [],
+    endTime: false,
+  },
+];
+
+// A category as offered for one symbol, with Deriv's limits and defaults
+export interface ContractOffering extends ContractCategory {
+  minDuration: string | null;
+  maxDuration: string | null;
+  defaultBarrier: string | null;
+  defaultBarrier2: string | null;
+  multipliers: number[];
+}
+
+export function getContractCategory(name: string): ContractCategory | undefined {
+  return contractCategories.find((category) => category.name === name);
+}
+
+export function isUpTradeType(tradeType: string): boolean {
+  return contractCategories.some((category) => category.tradeTypes[0] === tradeType);
+}
+
+const durationMilliseconds: Record<Exclude<DurationType, "ticks">, number> = {
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * When a trade's contract ends by the clock, or null for tick contracts and
+ * multipliers, which end on a tick count or when sold.
+ */
+export function getContractExpiry(trade: {
+  createdAt: Date | string | null;
+  duration: number | null;
+  durationType: string | null;
+  dateExpiry: Date | string | null;
+}): Date | null {
+  if (trade.dateExpiry) return new Date(trade.dateExpiry);
+  if (!trade.createdAt || !trade.duration || !(trade.durationType! in durationMilliseconds)) return null;
+
+  const unit = durationMilliseconds[trade.durationType as keyof typeof durationMilliseconds];
+  return new Date(new Date(trade.createdAt).getTime() + trade.duration * unit);
+}
+
+/**
+ * Checks that a trade carries what its category needs. Returns an error
+ * message, or null when the combination is valid.
+ */
+export function validateContract(contract: {
+  contractType: string;
+  tradeType: string;
+  duration?: number | null;
+  durationType?: string | null;
+  dateExpiry?: Date | null;
+  barrier?: string | null;
+  barrier2?: string | null;
+  multiplier?: number | null;
+  stopLoss?: string | null;
+  takeProfit?: string | null;
+  dealCancellation?: string | null;
+}): string | null {
+  const category = getContractCategory(contract.contractType);
+  if (!category) {
+    return `Unknown contract type ${contract.contractType}`;
+  }
+  if (!category.tradeTypes.includes(contract.tradeType as TradeType)) {
+    return `${contract.tradeType} is not a ${category.name} trade`;
+  }
+  if (category.barriers >= 1 && !contract.barrier) {
+    return `${category.name} requires a barrier`;
+  }
+  if (category.barriers === 2 && !contract.barrier2) {
+    return `${category.name} requires a low barrier`;
+  }
+  if (category.barriers === 0 && (contract.barrier || contract.barrier2)) {
+    return `${category.name} does not take barriers`;
+  }
+  if (category.digitBarrier && !/^[0-9]$/.test(contract.barrier || "")) {
+    return "Digit barrier must be a single digit";
+  }
+  // No last digit is over 9 or under 0, so those contracts could never win
+  if (contract.tradeType === "DIGITOVER" && contract.barrier === "9") {
+    return "DIGITOVER barrier must be between 0 and 8";
+  }
+  if (contract.tradeType === "DIGITUNDER" && contract.barrier === "0") {
+    return "DIGITUNDER barrier must be between 1 and 9";
+  }
+  if (category.usesDuration) {
+    const error = contract.dateExpiry
+      ? validateEndTime(category, contract.dateExpiry)
+      : validateDuration(category, contract.duration, contract.durationType);
+    if (error) return error;
+  }
+  if (!category.usesDuration && !contract.multiplier) {
+    return `${category.name} requires a multiplier`;
+  }
+  if (category.usesDuration && (contract.multiplier || contract.stopLoss || contract.takeProfit || contract.dealCancellation)) {
+    return "Multiplier, stop loss, take profit and deal cancellation are only available on multipliers";
+  }
+  if (contract.dealCancellation && (contract.stopLoss || contract.takeProfit)) {
+    return "Deal cancellation cannot be combined with stop loss or take profit";
+  }
+  return null;
+}
+
+function validateDuration(
+  category: ContractCategory,
+  duration: number | null | undefined,
+  durationType: string | null | undefined,
+): string | null {
+  if (!(duration && duration > 0)) {
+    return `${category.name} requires a duration or end time`;
+  }
+  if (!category.durationTypes.includes(durationType as DurationType)) {
+    return `${category.name} cannot be traded in ${durationType || "this duration"}`;
+  }
+  if (durationType === "ticks" && duration > MAX_TICK_DURATION) {
+    return `Tick contracts last at most ${MAX_TICK_DURATION} ticks`;
+  }
+  return null;
+}
+
+function validateEndTime(category: ContractCategory, dateExpiry: Date): string | null {
+  if (!category.endTime) {
+    return `${category.name} does not support an end time`;
+  }
+  if (dateExpiry.getTime() <= Date.now()) {
+    return "End time must be in the future";
+  }
+  return null;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { IndicatorSeries, computeStudy, parseStudy, type Study } from "./indicators";
+import type { Candle } from "./schema";
+
+const candles = (closes: number[]): Candle[] =>
+  closes.map((close, index) => ({ epoch: 60 * index, open: close, high: close + 1, low: close - 1, close }));
+
+const study = (spec: string): Study => parseStudy(spec)!;
+
+const values = (spec: string, closes: number[]) =>
+  computeStudy(study(spec), candles(closes)).points.map((point) => point.values);
+
+describe("indicators", () => {
+  it("averages the last period closes", () => {
+    expect(values("sma:3", [1, 2, 3, 4, 5])).toEqual([null, null, { value: 2 }, { value: 3 }, { value: 4 }]);
+  });
+
+  it("seeds an EMA with the simple average, then smooths", () => {
+    const [, , seed, next] = values("ema:3", [1, 2, 3, 7]);
+    expect(seed).toEqual({ value: 2 });
+    expect(next!.value).toBeCloseTo(7 * 0.5 + 2 * 0.5);
+  });
+
+  it("keeps RSI between 0 and 100", () => {
+    expect(values("rsi:3", [1, 2, 3, 4, 5]).at(-1)).toEqual({ value: 100 });
+    expect(values("rsi:3", [5, 4, 3, 2, 1]).at(-1)).toEqual({ value: 0 });
+  });
+
+  it("centres Bollinger bands on the moving average", () => {
+    const [band] = values("bollinger:4:2", [2, 4, 4, 6]).slice(-1);
+    expect(band!.middle).toBe(4);
+    expect(band!.upper - band!.middle).toBeCloseTo(band!.middle - band!.lower);
+  });
+
+  it("recomputes the live candle from the state before it", () => {
+    const series = new IndicatorSeries(study("sma:2"));
+    const [first, second] = candles([10, 20]);
+
+    series.update(first);
+    expect(series.update(second)).toEqual({ value: 15 });
+    // The candle is still forming: its close moves but it isn't a new candle
+    expect(series.update({ ...second, close: 30 })).toEqual({ value: 20 });
+    expect(series.values).toHaveLength(2);
+    // Candles older than the latest are ignored
+    expect(series.update(first)).toEqual({ value: 20 });
+  });
+
+  it("parses study specs with defaults and rejects invalid ones", () => {
+    expect(parseStudy("MACD")).toEqual({ id: "macd:12:26:9", name: "macd", params: [12, 26, 9] });
+    expect(parseStudy("bollinger:20:2.5")?.params).toEqual([20, 2.5]);
+    expect(parseStudy("sma:2.5")).toBeNull();
+    expect(parseStudy("sma:0")).toBeNull();
+    expect(parseStudy("sma:501")).toBeNull();
+    expect(parseStudy("sma:20:5")).toBeNull();
+    expect(parseStudy("vwap")).toBeNull();
+  });
+});
@@ -0,0 +1,308 @@
+// Technical indicators shared by the chart and the server. Each indicator is a
+// pure step function over candles, so a series can be extended one candle at a
+// time and the live candle recomputed as it changes.
+
+import type { Candle } from "./schema";
+
+export type IndicatorOutput = Record<string, number>;
+
+export interface Indicator<S = unknown> {
+  init(): S;
+  step(state: S, candle: Candle): [S, IndicatorOutput | null];
+}
+
+export const indicatorNames = ["sma", "ema", "bollinger", "rsi", "macd", "atr", "stochastic"] as const;
+
+export type IndicatorName = (typeof indicatorNames)[number];
+
+export interface IndicatorDefinition {
+  name: IndicatorName;
+  label: string;
+  pane: "overlay" | "separate"; // Drawn over price, or in its own pane below
+  outputs: string[];
+  defaults: number[];
+  create(params: number[]): Indicator;
+}
+
+// Exponential smoothing seeded with a simple average of the first `period` inputs
+interface SmoothedState {
+  count: number;
+  sum: number;
+  value: number | null;
+}
+
+const smoothedInit = (): SmoothedState => ({ count: 0, sum: 0, value: null });
+
+function smoothedNext(period: number, alpha: number, state: SmoothedState, input: number): SmoothedState {
+  const count = state.count + 1;
+  if (state.value === null) {
+    const sum = state.sum + input;
+    return { count, sum, value: count === period ? sum / period : null };
+  }
+  return { count, sum: state.sum, value: input * alpha + state.value * (1 - alpha) };
+}
+
+const emaAlpha = (period: number) => 2 / (period + 1);
+const wilderAlpha = (period: number) => 1 / period;
+
+function pushWindow(window: number[], value: number, size: number): number[] {
+  const next = [...window, value];
+  return next.length > size ? next.slice(next.length - size) : next;
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function sma([period]: number[]): Indicator<number[]> {
+  return {
+    init: () => [],
+    step: (window, candle) => {
+      const next = pushWindow(window, candle.close, period);
+      return [next, next.length === period ? { value: average(next) } : null];
+    },
+  };
+}
+
+function ema([period]: number[]): Indicator<SmoothedState> {
+  return {
+    init: smoothedInit,
+    step: (state, candle) => {
+      const next = smoothedNext(period, emaAlpha(period), state, candle.close);
+      return [next, next.value === null ? null : { value: next.value }];
+    },
+  };
+}
+
+function bollinger([period, deviations]: number[]): Indicator<number[]> {
+  return {
+    init: () => [],
+    step: (window, candle) => {
+      const next = pushWindow(window, candle.close, period);
+      if (next.length < period) return [next, null];
+
+      const middle = average(next);
+      const deviation = Math.sqrt(average(next.map((close) => (close - middle) ** 2)));
+      return [next, { upper: middle + deviations * deviation, middle, lower: middle - deviations * deviation }];
+    },
+  };
+}
+
+interface RsiState {
+  prevClose: number | null;
+  gain: SmoothedState;
+  loss: SmoothedState;
+}
+
+function rsi([period]: number[]): Indicator<RsiState> {
+  return {
+    init: () => ({ prevClose: null, gain: smoothedInit(), loss: smoothedInit() }),
+    step: (state, candle) => {
+      if (state.prevClose === null) {
+        return [{ ...state, prevClose: candle.close }, null];
+      }
+
+      const change = candle.close - state.prevClose;
+      const next: RsiState = {
+        prevClose: candle.close,
+        gain: smoothedNext(period, wilderAlpha(period), state.gain, Math.max(change, 0)),
+        loss: smoothedNext(period, wilderAlpha(period), state.loss, Math.max(-change, 0)),
+      };
+      if (next.gain.value === null || next.loss.value === null) return [next, null];
+
+      const value = next.loss.value === 0 ? 100 : 100 - 100 / (1 + next.gain.value / next.loss.value);
+      return [next, { value }];
+    },
+  };
+}
+
+interface MacdState {
+  fast: SmoothedState;
+  slow: SmoothedState;
+  signal: SmoothedState;
+}
+
+function macd([fastPeriod, slowPeriod, signalPeriod]: number[]): Indicator<MacdState> {
+  return {
+    init: () => ({ fast: smoothedInit(), slow: smoothedInit(), signal: smoothedInit() }),
+    step: (state, candle) => {
+      const fast = smoothedNext(fastPeriod, emaAlpha(fastPeriod), state.fast, candle.close);
+      const slow = smoothedNext(slowPeriod, emaAlpha(slowPeriod), state.slow, candle.close);
+      if (fast.value === null || slow.value === null) {
+        return [{ fast, slow, signal: state.signal }, null];
+      }
+
+      const line = fast.value - slow.value;
+      const signal = smoothedNext(signalPeriod, emaAlpha(signalPeriod), state.signal, line);
+      const output = signal.value === null
+        ? null
+        : { macd: line, signal: signal.value, histogram: line - signal.value };
+      return [{ fast, slow, signal }, output];
+    },
+  };
+}
+
+interface AtrState {
+  prevClose: number | null;
+  range: SmoothedState;
+}
+
+function atr([period]: number[]): Indicator<AtrState> {
+  return {
+    init: () => ({ prevClose: null, range: smoothedInit() }),
+    step: (state, candle) => {
+      const trueRange = state.prevClose === null
+        ? candle.high - candle.low
+        : Math.max(
+            candle.high - candle.low,
+            Math.abs(candle.high - state.prevClose),
+            Math.abs(candle.low - state.prevClose),
+          );
+      const range = smoothedNext(period, wilderAlpha(period), state.range, trueRange);
+      return [{ prevClose: candle.close, range }, range.value === null ? null : { value: range.value }];
+    },
+  };
+}
+
+interface StochasticState {
+  highs: number[];
+  lows: number[];
+  ks: number[];
+}
+
+function stochastic([kPeriod, dPeriod]: number[]): Indicator<StochasticState> {
+  return {
+    init: () => ({ highs: [], lows: [], ks: [] }),
+    step: (state, candle) => {
+      const highs = pushWindow(state.highs, candle.high, kPeriod);
+      const lows = pushWindow(state.lows, candle.low, kPeriod);
+      if (highs.length < kPeriod) return [{ highs, lows, ks: state.ks }, null];
+
+      const highest = Math.max(...highs);
+      const lowest = Math.min(...lows);
+      const k = highest === lowest ? 50 : ((candle.close - lowest) / (highest - lowest)) * 100;
+      const ks = pushWindow(state.ks, k, dPeriod);
+      return [{ highs, lows, ks }, ks.length === dPeriod ? { k, d: average(ks) } : null];
+    },
+  };
+}
+
+export const indicatorDefinitions: Record<IndicatorName, IndicatorDefinition> = {
+  sma: { name: "sma", label: "SMA", pane: "overlay", outputs: ["value"], defaults: [20], create: sma },
+  ema: { name: "ema", label: "EMA", pane: "overlay", outputs: ["value"], defaults: [20], create: ema },
+  bollinger: {
+    name: "bollinger",
+    label: "Bollinger Bands",
+    pane: "overlay",
+    outputs: ["upper", "middle", "lower"],
+    defaults: [20, 2],
+    create: bollinger,
+  },
+  rsi: { name: "rsi", label: "RSI", pane: "separate", outputs: ["value"], defaults: [14], create: rsi },
+  macd: {
+    name: "macd",
+    label: "MACD",
+    pane: "separate",
+    outputs: ["macd", "signal", "histogram"],
+    defaults: [12, 26, 9],
+    create: macd,
+  },
+  atr: { name: "atr", label: "ATR", pane: "separate", outputs: ["value"], defaults: [14], create: atr },
+  stochastic: {
+    name: "stochastic",
+    label: "Stochastic",
+    pane: "separate",
+    outputs: ["k", "d"],
+    defaults: [14, 3],
+    create: stochastic,
+  },
+};
+
+// A configured indicator, written as name:param:param (e.g. "macd:12:26:9")
+export interface Study {
+  id: string;
+  name: IndicatorName;
+  params: number[];
+}
+
+const MAX_INDICATOR_PERIOD = 500;
+
+export function parseStudy(spec: string): Study | null {
+  const [name, ...rawParams] = spec.trim().toLowerCase().split(":");
+  const definition = indicatorDefinitions[name as IndicatorName];
+  if (!definition || rawParams.length > definition.defaults.length) return null;
+
+  const params = definition.defaults.map((fallback, index) =>
+    rawParams[index] === undefined ? fallback : Number(rawParams[index])
+  );
+  // Bollinger's deviation multiplier may be fractional; every period is a whole number
+  const valid = params.every((param, index) =>
+    param > 0 && param <= MAX_INDICATOR_PERIOD &&
+    (Number.isInteger(param) || (definition.name === "bollinger" && index === 1))
+  );
+  if (!valid) return null;
+
+  return { id: [definition.name, ...params].join(":"), name: definition.name, params };
+}
+
+export function describeStudy(study: Study): string {
+  return `${indicatorDefinitions[study.name].label} (${study.params.join(", ")})`;
+}
+
+/**
+ * Runs an indicator over a candle series one candle at a time. Updating the
+ * latest candle again recomputes it from the previous state, so live ohlc
+ * updates cost one step rather than a full pass.
+ */
+export class IndicatorSeries {
+  readonly epochs: number[] = [];
+  readonly values: (IndicatorOutput | null)[] = [];
+  private indicator: Indicator;
+  private previous: unknown;
+  private current: unknown;
+
+  constructor(readonly study: Study) {
+    this.indicator = indicatorDefinitions[study.name].create(study.params);
+    this.previous = this.current = this.indicator.init();
+  }
+
+  update(candle: Candle): IndicatorOutput | null {
+    const last = this.epochs.length - 1;
+
+    if (last >= 0 && candle.epoch === this.epochs[last]) {
+      const [state, value] = this.indicator.step(this.previous, candle);
+      this.current = state;
+      this.values[last] = value;
+      return value;
+    }
+    if (last >= 0 && candle.epoch < this.epochs[last]) {
+      return this.values[last];
+    }
+
+    const [state, value] = this.indicator.step(this.current, candle);
+    this.previous = this.current;
+    this.current = state;
+    this.epochs.push(candle.epoch);
+    this.values.push(value);
+    return value;
+  }
+}
+
+export interface StudyResult {
+  id: string;
+  name: IndicatorName;
+  pane: IndicatorDefinition["pane"];
+  outputs: string[];
+  points: { epoch: number; values: IndicatorOutput | null }[];
+}
+
+export function computeStudy(study: Study, candles: Candle[]): StudyResult {
+  const series = new IndicatorSeries(study);
+  const definition = indicatorDefinitions[study.name];
+
+  return {
+    id: study.id,
+    name: study.name,
+    pane: definition.pane,
+    outputs: definition.outputs,
+    points: candles.map((candle) => ({ epoch: candle.epoch, values: series.update(candle) })),
+  };
+}
@@ -0,0 +1,21 @@
+// Roles stored in users.role and what each of them may do
+
+export const roles = ["admin", "trader", "client"] as const;
+
+export type Role = (typeof roles)[number];
+
+export type Permission =
+  | "clients:manage" // Connect, disconnect and administer any client
+  | "clients:view"   // See client accounts, balances and trades
+  | "clients:trade"  // Place and manage trades on a client's behalf
+  | "markets:manage"; // Choose where each market's prices come from
+
+const rolePermissions: Record<Role, Permission[]> = {
+  admin: ["clients:manage", "clients:view", "clients:trade", "markets:manage"],
+  trader: ["clients:view", "clients:trade"],
+  client: [],
+};
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return rolePermissions[role as Role]?.includes(permission) ?? false;
+}
@@ -5,6 +5,7 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   integer,
   boolean,
@@ -12,6 +13,8 @@ import {
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { dealCancellationPeriods, durationTypes, tradeTypes, validateContract } from "./contracts";
+import { parseStudy, type Study } from "./indicators";
 
 // Session storage table for authentication
 export const sessions = pgTable(
@@ -35,9 +38,8 @@ export const users = pgTable("users", {
   password: text("password"),
   role: text("role").notNull().default("client"), // "admin", "client", "trader"
   isActive: boolean("is_active").default(true),
-  balance: decimal("balance", { precision: 10, scale: 2 }).default("0.00"),
   derivAccountId: text("deriv_account_id"),
-  apiToken: text("api_token"), // Encrypted storage for client's Deriv API token
+  apiToken: text("api_token"), // Deriv API token, envelope encrypted by server/token-vault
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -54,6 +56,9 @@ export const markets = pgTable("markets", {
   low: decimal("low", { precision: 10, scale: 5 }),
   volume: text("volume"),
   isActive: boolean("is_active").default(true),
+  dataSource: text("data_source").notNull().default("live"), // live, replay, simulated
+  sessionOpen: decimal("session_open", { precision: 10, scale: 5 }), // First price of the UTC day; change is measured from it
+  sessionStart: timestamp("session_start"),
   lastUpdate: timestamp("last_update").defaultNow(),
 });
 
@@ -61,21 +66,104 @@ export const trades = pgTable("trades", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id).notNull(),
   symbol: text("symbol").notNull(),
-  tradeType: text("trade_type").notNull(), // CALL, PUT
+  tradeType: text("trade_type").notNull(), // Deriv contract_type: CALL, PUT, ONETOUCH, DIGITOVER, etc.
   contractType: text("contract_type").notNull(), // Higher/Lower, Touch/No Touch, etc.
+  barrier: text("barrier"),
+  barrier2: text("barrier2"), // Low barrier for two-barrier contracts
+  multiplier: integer("multiplier"),
   stake: decimal("stake", { precision: 10, scale: 2 }).notNull(),
   entryPrice: decimal("entry_price", { precision: 10, scale: 5 }),
   exitPrice: decimal("exit_price", { precision: 10, scale: 5 }),
-  duration: integer("duration").notNull(),
-  durationType: text("duration_type").notNull(), // minutes, hours, days
+  duration: integer("duration"), // Null for multipliers, which run until closed
+  durationType: text("duration_type"), // ticks, seconds, minutes, hours, days
+  dateExpiry: timestamp("date_expiry"), // Fixed end time instead of a duration
+  stopLoss: decimal("stop_loss", { precision: 10, scale: 2 }), // Multiplier limit orders
+  takeProfit: decimal("take_profit", { precision: 10, scale: 2 }),
+  dealCancellation: text("deal_cancellation"), // e.g. "60m"
   status: text("status").notNull().default("open"), // open, closed, won, lost
   payout: decimal("payout", { precision: 10, scale: 2 }),
   profit: decimal("profit", { precision: 10, scale: 2 }),
   derivTradeId: text("deriv_trade_id"),
+  paper: boolean("paper").notNull().default(false), // Priced and settled locally rather than by Deriv
+  bidPrice: decimal("bid_price", { precision: 10, scale: 2 }), // Live sell-back value while open
+  currentSpot: decimal("current_spot", { precision: 10, scale: 5 }),
+  needsAttention: boolean("needs_attention").notNull().default(false), // Expired with no settlement from its source
   createdAt: timestamp("created_at").defaultNow(),
   closedAt: timestamp("closed_at"),
 });
 
+// A trader's book: which client accounts each trader may see or trade
+export const assignmentPermissions = ["view", "trade"] as const;
+
+export const clientAssignments = pgTable(
+  "client_assignments",
+  {
+    id: serial("id").primaryKey(),
+    traderId: varchar("trader_id").references(() => users.id).notNull(),
+    clientId: varchar("client_id").references(() => users.id).notNull(),
+    permission: text("permission").notNull().default("view"), // view, trade
+    maxStake: decimal("max_stake", { precision: 10, scale: 2 }), // Per-trade cap, null for none
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_client_assignment").on(table.traderId, table.clientId)],
+);
+
+// Clients that should be connected to Deriv, restored when the server boots
+export const clientConnections = pgTable("client_connections", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  symbols: jsonb("symbols").$type<string[]>().notNull().default([]), // Tick subscriptions to restore
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Double-entry ledger. Every transaction's entries sum to zero across
+// accounts, and a user's balance is the sum of the entries on their wallet.
+export const ledgerTransactionKinds = ["deposit", "stake", "refund", "payout", "adjustment", "deriv_sync"] as const;
+
+export const ledgerTransactions = pgTable("ledger_transactions", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(), // Whose wallet the transaction moves
+  kind: text("kind").notNull(), // deposit, stake, refund, payout, adjustment, deriv_sync
+  tradeId: integer("trade_id").references(() => trades.id),
+  description: text("description"),
+  createdBy: varchar("created_by").references(() => users.id), // Staff member behind an adjustment
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const ledgerEntries = pgTable(
+  "ledger_entries",
+  {
+    id: serial("id").primaryKey(),
+    transactionId: integer("transaction_id").references(() => ledgerTransactions.id).notNull(),
+    account: text("account").notNull(), // A user's walletAccount, or one of ledgerAccounts
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // Positive credits the account, negative debits it
+  },
+  (table) => [index("IDX_ledger_entries_account").on(table.account)],
+);
+
+export const walletAccount = (userId: string) => `wallet:${userId}`;
+
+// The accounts wallet movements balance against
+export const ledgerAccounts = {
+  deposits: "external:deposits", // Money paid in from outside the platform
+  deriv: "external:deriv", // Differences found when syncing with Deriv account balances
+  openStakes: "house:open_stakes", // Stakes held while their trades are open
+  trading: "house:trading", // Stakes kept and payouts made on settled trades
+  adjustments: "house:adjustments",
+} as const;
+
+// One-time links a client follows to store their Deriv API token
+export const tokenLinks = pgTable("token_links", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the link token; the token itself is never stored
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
@@ -93,6 +181,105 @@ export const insertTradeSchema = createInsertSchema(trades).omit({
   closedAt: true,
 });
 
+// Pricing schemas
+const refineContract = (contract: Parameters<typeof validateContract>[0], ctx: z.RefinementCtx) => {
+  const error = validateContract(contract);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+};
+
+export const proposalRequestSchema = z.object({
+  symbol: z.string().min(1),
+  contractType: z.string(),
+  tradeType: z.enum(tradeTypes),
+  stake: z.string().refine((value) => parseFloat(value) > 0, "Stake must be positive"),
+  duration: z.number().int().positive().optional(),
+  durationType: z.enum(durationTypes).optional(),
+  dateExpiry: z.coerce.date().optional(),
+  barrier: z.string().optional(),
+  barrier2: z.string().optional(),
+  multiplier: z.number().int().positive().optional(),
+  stopLoss: z.string().optional(),
+  takeProfit: z.string().optional(),
+  dealCancellation: z.enum(dealCancellationPeriods).optional(),
+  currency: z.string().default("USD"),
+}).superRefine(refineContract);
+
+// Number() rather than parseFloat, so "10abc" is rejected instead of read as 10
+const positiveAmount = (message: string) => z.string().refine((value) => Number(value) > 0, message);
+
+// What a caller may say about a new trade; its state and results are the server's to fill in
+export const placeTradeSchema = insertTradeSchema.omit({
+  paper: true,
+  needsAttention: true,
+  status: true,
+  entryPrice: true,
+  exitPrice: true,
+  payout: true,
+  profit: true,
+  derivTradeId: true,
+  bidPrice: true,
+  currentSpot: true,
+}).extend({
+  tradeType: z.enum(tradeTypes),
+  stake: positiveAmount("Stake must be positive"),
+  stopLoss: positiveAmount("Stop loss must be positive").optional(),
+  takeProfit: positiveAmount("Take profit must be positive").optional(),
+  dateExpiry: z.coerce.date().optional(),
+  proposalId: z.string().optional(),
+  maxPrice: positiveAmount("Maximum price must be positive").optional(),
+}).superRefine(refineContract);
+
+const limitOrderAmount = z
+  .string()
+  .refine((value) => parseFloat(value) > 0, "Limit order amount must be positive")
+  .nullable()
+  .optional();
+
+// null removes a limit order, undefined leaves it unchanged
+export const updateLimitOrdersSchema = z.object({
+  stopLoss: limitOrderAmount,
+  takeProfit: limitOrderAmount,
+});
+
+export const sellTradeSchema = z.object({
+  minPrice: z.coerce.number().nonnegative().optional(),
+});
+
+const maxStakeAmount = z
+  .string()
+  .refine((value) => parseFloat(value) > 0, "Max stake must be positive")
+  .nullable()
+  .optional();
+
+export const createAssignmentSchema = z.object({
+  traderId: z.string().min(1),
+  clientId: z.string().min(1),
+  permission: z.enum(assignmentPermissions).default("view"),
+  maxStake: maxStakeAmount,
+});
+
+// null removes the stake cap, undefined leaves it unchanged
+export const updateAssignmentSchema = z.object({
+  permission: z.enum(assignmentPermissions).optional(),
+  maxStake: maxStakeAmount,
+});
+
+export const ledgerAdjustmentSchema = z.object({
+  amount: z.string().refine((value) => parseFloat(value) !== 0 && !isNaN(parseFloat(value)), "Amount must be a non-zero number"),
+  description: z.string().trim().min(1, "Say why the balance is being adjusted"),
+});
+
+export const ledgerDepositSchema = z.object({
+  amount: positiveAmount("Amount must be positive"),
+  description: z.string().trim().min(1).default("Deposit"),
+});
+
+export const linkApiTokenSchema = z.object({
+  apiToken: z.string().trim().min(1, "API token is required"),
+});
+
 // Authentication schemas
 export const loginSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
@@ -109,12 +296,152 @@ export const registerSchema = z.object({
 
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password" | "apiToken"> & {
+  hasApiToken: boolean; // Whether a Deriv token is linked; the token never leaves the server
+  balance: string; // Derived from the user's ledger entries
+};
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginRequest = z.infer<typeof loginSchema>;
 export type RegisterRequest = z.infer<typeof registerSchema>;
 
+// Where a market's prices come from: Deriv ticks, recorded Deriv ticks played back, or a simulator
+export const marketDataSources = ["live", "replay", "simulated"] as const;
+
+export const updateMarketSourceSchema = z.object({
+  dataSource: z.enum(marketDataSources),
+});
+
+export type MarketDataSource = (typeof marketDataSources)[number];
 export type InsertMarket = z.infer<typeof insertMarketSchema>;
 export type Market = typeof markets.$inferSelect;
 
 export type InsertTrade = z.infer<typeof insertTradeSchema>;
 export type Trade = typeof trades.$inferSelect;
+export type PlaceTradeRequest = z.infer<typeof placeTradeSchema>;
+export type SellTradeRequest = z.infer<typeof sellTradeSchema>;
+export type UpdateLimitOrdersRequest = z.infer<typeof updateLimitOrdersSchema>;
+
+export type AssignmentPermission = (typeof assignmentPermissions)[number];
+export type ClientAssignment = typeof clientAssignments.$inferSelect;
+export type InsertClientAssignment = typeof clientAssignments.$inferInsert;
+export type CreateAssignmentRequest = z.infer<typeof createAssignmentSchema>;
+export type UpdateAssignmentRequest = z.infer<typeof updateAssignmentSchema>;
+
+// One client in a trader's book, as listed on the client-management page
+export type BookEntry = {
+  client: PublicUser;
+  permission: AssignmentPermission;
+  maxStake: string | null;
+  connected: boolean;
+  connectionState: ConnectionState;
+};
+
+export type ClientConnection = typeof clientConnections.$inferSelect;
+export type InsertClientConnection = typeof clientConnections.$inferInsert;
+
+// Lifecycle of a managed client's Deriv socket, see server/client-manager
+export const connectionStates = ["connecting", "authorized", "failed-auth", "reconnecting", "stopped"] as const;
+
+export type ConnectionState = (typeof connectionStates)[number];
+export type ClientConnectionStatus = {
+  state: ConnectionState;
+  symbols: string[];
+  error: string | null;
+  since: Date | null; // When the current state was entered
+};
+
+export type LedgerTransactionKind = (typeof ledgerTransactionKinds)[number];
+export type LedgerTransaction = typeof ledgerTransactions.$inferSelect;
+export type InsertLedgerTransaction = typeof ledgerTransactions.$inferInsert;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertLedgerEntry = Omit<typeof ledgerEntries.$inferInsert, "transactionId">;
+export type LedgerAdjustmentRequest = z.infer<typeof ledgerAdjustmentSchema>;
+export type LedgerDepositRequest = z.infer<typeof ledgerDepositSchema>;
+
+// One movement on a wallet, as listed on the account statement
+export type StatementLine = Pick<LedgerTransaction, "id" | "kind" | "tradeId" | "description" | "createdAt"> & {
+  amount: string;
+};
+
+export type TokenLink = typeof tokenLinks.$inferSelect;
+export type InsertTokenLink = typeof tokenLinks.$inferInsert;
+export type LinkApiTokenRequest = z.infer<typeof linkApiTokenSchema>;
+
+export type ProposalRequest = z.infer<typeof proposalRequestSchema>;
+export type Proposal = {
+  id: string;
+  askPrice: number;
+  payout: number;
+  longcode: string;
+  spot: number | null;
+};
+
+// Candle sizes Deriv serves from ticks_history, in seconds
+export const candleGranularities = [60, 120, 180, 300, 600, 900, 1800, 3600, 7200, 14400, 28800, 86400] as const;
+
+export const chartTimeframes = {
+  "1m": 60,
+  "5m": 300,
+  "15m": 900,
+  "1h": 3600,
+  "1d": 86400,
+} as const;
+
+export const candlesQuerySchema = z.object({
+  granularity: z.coerce.number()
+    .refine((value) => (candleGranularities as readonly number[]).includes(value), "Unsupported granularity")
+    .default(60),
+  count: z.coerce.number().int().min(1).max(5000).default(500),
+});
+
+// studies is a comma-separated list of indicator specs, e.g. "sma:20,rsi:14"
+export const indicatorsQuerySchema = candlesQuerySchema.extend({
+  studies: z.string().min(1).transform((value, ctx) => {
+    const studies: Study[] = [];
+    for (const spec of value.split(",")) {
+      const study = parseStudy(spec);
+      if (!study) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown or invalid indicator ${spec}` });
+        return z.NEVER;
+      }
+      studies.push(study);
+    }
+    return studies;
+  }),
+});
+
+export type CandlesQuery = z.infer<typeof candlesQuerySchema>;
+export type IndicatorsQuery = z.infer<typeof indicatorsQuerySchema>;
+export type Candle = {
+  epoch: number; // Candle open time in epoch seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+};
+
+export const candleStreamSchema = z.object({
+  symbol: z.string().min(1),
+  granularity: candlesQuerySchema.shape.granularity,
+});
+
+export type CandleStreamRequest = z.infer<typeof candleStreamSchema>;
+
+// Channels a browser can subscribe to on /ws with { type: "subscribe", channel, ... }
+export const wsChannels = ["ticks", "candles", "proposal", "trades"] as const;
+
+export const wsSubscribeSchema = z.discriminatedUnion("channel", [
+  z.object({ channel: z.literal("ticks"), symbols: z.array(z.string().min(1)).min(1).max(50) }),
+  z.object({ channel: z.literal("candles"), params: candleStreamSchema }),
+  z.object({ channel: z.literal("proposal"), params: proposalRequestSchema }),
+  z.object({ channel: z.literal("trades") }), // The signed-in user's own trades
+]);
+
+export const wsUnsubscribeSchema = z.object({
+  channel: z.enum(wsChannels),
+  symbols: z.array(z.string()).optional(), // ticks only; omitted stops every symbol
+});
+
+export type WsChannel = (typeof wsChannels)[number];
+export type WsSubscribeRequest = z.infer<typeof wsSubscribeSchema>;
+export type WsUnsubscribeRequest = z.infer<typeof wsUnsubscribeSchema>;